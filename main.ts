@@ -3,20 +3,45 @@
  * Converts markdown content to Unicode-formatted plain text with customizable presets.
  */
 
-import { type Editor, Notice, Plugin } from "obsidian";
+import {
+	type Editor,
+	Notice,
+	Plugin,
+	resolveSubpath,
+	type TFile,
+} from "obsidian";
 import {
 	FILE_FILTERS,
 	generateDefaultFileName,
 	saveToFile,
 } from "./src/file-utils";
-import { convertMarkdownToPlainText } from "./src/markdown-converter";
+import { splitFrontmatter } from "./src/frontmatter";
+import {
+	convertMarkdownToHtml,
+	convertMarkdownToPlainText,
+} from "./src/markdown-converter";
+import { findEmbeds } from "./src/markdown-extensions";
 import {
 	DEFAULT_SETTINGS,
 	generatePresetId,
+	type MarkdownConversionSettings,
 	type PluginSettings,
 	type Preset,
 	SettingTab,
 } from "./src/settings";
+import {
+	applyHtmlTemplates,
+	applyTemplates,
+	countWords,
+} from "./src/templates";
+import type { AsciiSubstitution, ConversionOptions } from "./src/types";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Substitutions listed in the ASCII-safe notice */
+const MAX_REPORT_LINES = 8;
 
 // =============================================================================
 // Plugin Class
@@ -48,7 +73,9 @@ export default class SelectionToFilePlugin extends Plugin {
 			id: "save-selection-to-file",
 			name: "Save selection as file...",
 			editorCallback: async (editor: Editor) => {
-				const content = this.getEditorContent(editor);
+				const { body: content } = splitFrontmatter(
+					this.getEditorContent(editor),
+				);
 				await saveToFile(content, {
 					title: "Save selection to file",
 					defaultPath: generateDefaultFileName(content),
@@ -81,19 +108,19 @@ export default class SelectionToFilePlugin extends Plugin {
 		this.addCommand({
 			id: copyId,
 			name: `${preset.name} (copy)`,
-			editorCallback: async (editor: Editor) => {
-				const content = this.getEditorContent(editor);
-				const converted = convertMarkdownToPlainText(content, preset.settings);
-
-				await navigator.clipboard.writeText(converted);
-				new Notice(
-					editor.getSelection()
-						? `Copied with "${preset.name}"`
-						: `Copied entire file with "${preset.name}"`,
-				);
-			},
+			editorCallback: (editor: Editor) =>
+				this.copyConverted(editor, preset, preset.richTextCopy),
 		});
 		this.presetCommandIds.push(copyId);
+
+		const richCopyId = `copy-rich-text-${preset.id}`;
+		this.addCommand({
+			id: richCopyId,
+			name: `${preset.name} (copy as rich text)`,
+			editorCallback: (editor: Editor) =>
+				this.copyConverted(editor, preset, true),
+		});
+		this.presetCommandIds.push(richCopyId);
 	}
 
 	private registerPresetSaveCommand(preset: Preset): void {
@@ -103,11 +130,19 @@ export default class SelectionToFilePlugin extends Plugin {
 			name: `${preset.name} (save)`,
 			editorCallback: async (editor: Editor) => {
 				const content = this.getEditorContent(editor);
-				const converted = convertMarkdownToPlainText(content, preset.settings);
+				const options = await this.getConversionOptions(content, preset);
+				const converted = this.applyPresetTemplates(
+					convertMarkdownToPlainText(content, preset.settings, options),
+					editor,
+					preset,
+				);
 
 				await saveToFile(converted, {
 					title: `Save as plain text (${preset.name})`,
-					defaultPath: generateDefaultFileName(content, "txt"),
+					defaultPath: generateDefaultFileName(
+						splitFrontmatter(content).body,
+						"txt",
+					),
 					filters: FILE_FILTERS.text,
 				});
 			},
@@ -115,29 +150,198 @@ export default class SelectionToFilePlugin extends Plugin {
 		this.presetCommandIds.push(saveId);
 	}
 
+	// ===========================================================================
+	// Clipboard
+	// ===========================================================================
+
+	/**
+	 * Copy the converted text; a rich text copy adds an HTML version for
+	 * apps that paste formatting, with the plain text as fallback
+	 */
+	private async copyConverted(
+		editor: Editor,
+		preset: Preset,
+		richText: boolean,
+	): Promise<void> {
+		const content = this.getEditorContent(editor);
+		const options = await this.getConversionOptions(content, preset);
+		const converted = this.applyPresetTemplates(
+			convertMarkdownToPlainText(content, preset.settings, options),
+			editor,
+			preset,
+		);
+
+		if (richText) {
+			const html = applyHtmlTemplates(
+				convertMarkdownToHtml(content, preset.settings, options),
+				preset,
+				this.getTemplateVariables(editor, preset, converted),
+			);
+			await navigator.clipboard.write([
+				new ClipboardItem({
+					"text/html": new Blob([html], { type: "text/html" }),
+					"text/plain": new Blob([converted], { type: "text/plain" }),
+				}),
+			]);
+		} else {
+			await navigator.clipboard.writeText(converted);
+		}
+
+		const format = richText ? " as rich text" : "";
+		new Notice(
+			editor.getSelection()
+				? `Copied${format} with "${preset.name}"`
+				: `Copied entire file${format} with "${preset.name}"`,
+		);
+	}
+
+	// ===========================================================================
+	// ASCII-Safe Report
+	// ===========================================================================
+
+	/** List what the ASCII-safe stage replaced, most frequent first */
+	private showAsciiReport(substitutions: AsciiSubstitution[]): void {
+		if (substitutions.length === 0) return;
+
+		const total = substitutions.reduce((sum, s) => sum + s.count, 0);
+		const lines = [...substitutions]
+			.sort((a, b) => b.count - a.count)
+			.map(({ from, to, count }) => {
+				// Combining marks are shown on a dotted circle
+				const shown = /^\p{M}/u.test(from) ? `◌${from}` : from;
+				return `${shown} → ${to || "(removed)"} ×${count}`;
+			});
+		const more =
+			lines.length > MAX_REPORT_LINES
+				? [`…and ${lines.length - MAX_REPORT_LINES} more`]
+				: [];
+		new Notice(
+			[
+				`ASCII-safe: replaced ${total} characters`,
+				...lines.slice(0, MAX_REPORT_LINES),
+				...more,
+			].join("\n"),
+			10000,
+		);
+	}
+
 	// ===========================================================================
 	// Content Extraction
 	// ===========================================================================
 
+	/** The selection, or the whole file; presets decide what to do with frontmatter */
 	private getEditorContent(editor: Editor): string {
-		const selection = editor.getSelection();
-		return selection || this.getContentWithoutFrontmatter(editor);
+		return editor.getSelection() || editor.getValue();
+	}
+
+	// ===========================================================================
+	// Templates
+	// ===========================================================================
+
+	/** Wrap converted text in the preset's header and footer templates */
+	private applyPresetTemplates(
+		converted: string,
+		editor: Editor,
+		preset: Preset,
+	): string {
+		if (!preset.headerTemplate && !preset.footerTemplate) return converted;
+		return applyTemplates(
+			converted,
+			preset,
+			this.getTemplateVariables(editor, preset, converted),
+		);
 	}
 
-	private getContentWithoutFrontmatter(editor: Editor): string {
-		const content = editor.getValue();
+	private getTemplateVariables(
+		editor: Editor,
+		preset: Preset,
+		converted: string,
+	): Record<string, string> {
+		// Frontmatter comes from the whole note, even when converting a selection
+		const { frontmatter } = splitFrontmatter(editor.getValue());
 		const file = this.app.workspace.getActiveFile();
-		if (!file) return content;
+		// Built-in names win; {{fm.name}} always reaches the frontmatter field
+		const fields: Record<string, string> = {};
+		for (const [key, value] of Object.entries(frontmatter?.values ?? {})) {
+			fields[key] = value;
+			fields[`fm.${key}`] = value;
+		}
+		return {
+			...fields,
+			title: file?.basename ?? "",
+			path: file?.path ?? "",
+			preset: preset.name,
+			wordCount: String(countWords(converted)),
+		};
+	}
+
+	// ===========================================================================
+	// Embed Resolution
+	// ===========================================================================
+
+	/** Pre-load embedded notes so the synchronous converter can inline them */
+	private async getConversionOptions(
+		content: string,
+		preset: Preset,
+	): Promise<ConversionOptions> {
+		const options: ConversionOptions = {
+			onAsciiSubstitutions: (substitutions) =>
+				this.showAsciiReport(substitutions),
+		};
+		if (preset.settings.embedMode !== "inline") return options;
+
+		const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+		const embeds = new Map<string, string>();
+		await this.loadEmbeds(content, sourcePath, embeds);
+
+		options.resolveEmbed = (target, subpath) =>
+			embeds.get(`${target}#${subpath}`) ?? null;
+		return options;
+	}
+
+	private async loadEmbeds(
+		markdown: string,
+		sourcePath: string,
+		embeds: Map<string, string>,
+	): Promise<void> {
+		for (const { target, subpath } of findEmbeds(markdown)) {
+			// Already loaded keys also stop embed cycles
+			const key = `${target}#${subpath}`;
+			if (embeds.has(key)) continue;
+
+			const file = this.app.metadataCache.getFirstLinkpathDest(
+				target,
+				sourcePath,
+			);
+			if (file?.extension !== "md") continue;
+
+			const text = this.extractEmbedContent(
+				file,
+				await this.app.vault.cachedRead(file),
+				subpath,
+			);
+			if (text === null) continue;
+
+			embeds.set(key, text);
+			await this.loadEmbeds(text, file.path, embeds);
+		}
+	}
+
+	/** Return the embedded heading section or block, or the note body */
+	private extractEmbedContent(
+		file: TFile,
+		content: string,
+		subpath: string,
+	): string | null {
+		if (!subpath) return splitFrontmatter(content).body;
 
 		const cache = this.app.metadataCache.getFileCache(file);
-		if (!cache?.frontmatterPosition) return content;
-
-		const endLine = cache.frontmatterPosition.end.line;
-		const lines = content.split("\n");
-		return lines
-			.slice(endLine + 1)
-			.join("\n")
-			.trimStart();
+		const result = cache && resolveSubpath(cache, `#${subpath}`);
+		if (!result) return null;
+
+		return content
+			.slice(result.start.offset, result.end?.offset)
+			.replace(/\s*\^[\w-]+\s*$/, "");
 	}
 
 	// ===========================================================================
@@ -166,6 +370,9 @@ export default class SelectionToFilePlugin extends Plugin {
 						id: generatePresetId(),
 						name: "Default",
 						settings: { ...DEFAULT_SETTINGS },
+						headerTemplate: "",
+						footerTemplate: "",
+						richTextCopy: false,
 					},
 				],
 			};
@@ -205,6 +412,9 @@ export default class SelectionToFilePlugin extends Plugin {
 					id: generatePresetId(),
 					name: "Default",
 					settings: oldSettings,
+					headerTemplate: "",
+					footerTemplate: "",
+					richTextCopy: false,
 				},
 			],
 		};
@@ -234,12 +444,44 @@ export default class SelectionToFilePlugin extends Plugin {
 			needsSave = true;
 		}
 
-		// Add default customRules if empty
-		if (
-			!preset.settings.customRules ||
-			preset.settings.customRules.length === 0
-		) {
-			preset.settings.customRules = DEFAULT_SETTINGS.customRules;
+		// Migrate single bullet character to per-depth bullets
+		if ("bulletChar" in s) {
+			preset.settings.bulletChars = [String(s.bulletChar)];
+			delete s.bulletChar;
+			needsSave = true;
+		}
+
+		// Presets created before header and footer templates
+		if (preset.headerTemplate === undefined) {
+			preset.headerTemplate = "";
+			needsSave = true;
+		}
+		if (preset.footerTemplate === undefined) {
+			preset.footerTemplate = "";
+			needsSave = true;
+		}
+
+		// Presets created before rich text copies
+		if (preset.richTextCopy === undefined) {
+			preset.richTextCopy = false;
+			needsSave = true;
+		}
+
+		// Add defaults for settings introduced after the preset was created
+		for (const [key, value] of Object.entries(DEFAULT_SETTINGS)) {
+			if (!(key in s)) {
+				s[key] = value;
+				needsSave = true;
+			}
+		}
+
+		if (!preset.settings.customRules) {
+			preset.settings.customRules = [];
+			needsSave = true;
+		}
+
+		// Move the old default task status rules into the status table
+		if (this.migrateTaskStatusRules(preset.settings)) {
 			needsSave = true;
 		}
 
@@ -264,6 +506,31 @@ export default class SelectionToFilePlugin extends Plugin {
 		return needsSave;
 	}
 
+	/**
+	 * Replace enabled "• [/]" style regex rules (the old defaults for
+	 * in-progress and cancelled tasks) with task status table entries
+	 */
+	private migrateTaskStatusRules(
+		settings: MarkdownConversionSettings,
+	): boolean {
+		const legacyPattern = /^\^\(\\s\*\)• \\\[(.)\\\] \?$/;
+		const statuses = { ...settings.taskStatuses };
+		const rules = settings.customRules.filter((rule) => {
+			const status = legacyPattern.exec(rule.pattern)?.[1];
+			const symbol = /^\$1(.+?) ?$/.exec(rule.replacement)?.[1];
+			if (!rule.enabled || status === undefined || symbol === undefined) {
+				return true;
+			}
+			statuses[status] = symbol;
+			return false;
+		});
+
+		if (rules.length === settings.customRules.length) return false;
+		settings.customRules = rules;
+		settings.taskStatuses = statuses;
+		return true;
+	}
+
 	private migrateOldRuleProperties(settings: Record<string, unknown>): void {
 		// Migrate text decoration booleans to modes
 		if ("useBoldUnicode" in settings) {
@@ -281,7 +548,15 @@ export default class SelectionToFilePlugin extends Plugin {
 			delete settings.useStrikethrough;
 		}
 
+		if ("bulletChar" in settings) {
+			settings.bulletChars = [String(settings.bulletChar)];
+			delete settings.bulletChar;
+		}
+
 		if (!settings.customRules) return;
+		this.migrateTaskStatusRules(
+			settings as unknown as MarkdownConversionSettings,
+		);
 
 		for (const rule of settings.customRules as Record<string, unknown>[]) {
 			if ("flags" in rule) {
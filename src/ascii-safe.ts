@@ -0,0 +1,373 @@
+/**
+ * ASCII-safe output: transliterates the symbols the converter emits
+ * (styled letters, box drawing, checkboxes, bullets, math, smart quotes)
+ * for mail clients and terminals without Unicode fonts, and reports
+ * every substitution.
+ */
+
+import type { AsciiSubstitution, MarkdownConversionSettings } from "./types";
+import { removeUnicodeStyles } from "./unicode-styles";
+
+// =============================================================================
+// Symbol Tables
+// =============================================================================
+
+/** Symbols with a conventional ASCII spelling */
+const SYMBOLS: Record<string, string> = {
+	// Quotes, dashes and spaces
+	"‘": "'",
+	"’": "'",
+	"‚": "'",
+	"‛": "'",
+	"‹": "'",
+	"›": "'",
+	"“": '"',
+	"”": '"',
+	"„": '"',
+	"‟": '"',
+	"«": '"',
+	"»": '"',
+	"′": "'",
+	"″": '"',
+	"–": "-",
+	"—": "--",
+	"―": "--",
+	"−": "-",
+	"…": "...",
+	"⋯": "...",
+	"⋮": ":",
+	"⋱": "...",
+	"【": "[",
+	"】": "]",
+	"「": "[",
+	"」": "]",
+	"〔": "[",
+	"〕": "]",
+	"\u00a0": " ",
+	"\u2002": " ",
+	"\u2003": " ",
+	"\u2009": " ",
+	"\u202f": " ",
+	"\u200b": "",
+	"\u00ad": "",
+
+	// Bullets and checkboxes
+	"•": "*",
+	"∙": "*",
+	"·": "*",
+	"⋅": "*",
+	"◦": "o",
+	"▪": "-",
+	"▫": "-",
+	"‣": ">",
+	"▸": ">",
+	"▹": ">",
+	"◆": "*",
+	"◇": "*",
+	"★": "*",
+	"☆": "*",
+	"☑": "[x]",
+	"☒": "[x]",
+	"✅": "[x]",
+	"✓": "[x]",
+	"✔": "[x]",
+	"☐": "[ ]",
+
+	// Arrows
+	"→": "->",
+	"⟶": "->",
+	"↪": "->",
+	"←": "<-",
+	"⟵": "<-",
+	"↩": "<-",
+	"↔": "<->",
+	"⇒": "=>",
+	"⟹": "=>",
+	"⇐": "<=",
+	"⟸": "<=",
+	"⇔": "<=>",
+	"⟺": "<=>",
+	"⇌": "<=>",
+	"↦": "|->",
+	"⟼": "|->",
+	"↑": "^",
+	"⇑": "^",
+	"↓": "v",
+	"⇓": "v",
+	"↕": "^v",
+	"↗": "/",
+	"↙": "/",
+	"↖": "\\",
+	"↘": "\\",
+
+	// Math
+	"×": "x",
+	"÷": "/",
+	"±": "+/-",
+	"∓": "-/+",
+	"∗": "*",
+	"⋆": "*",
+	"∘": "o",
+	"⊕": "(+)",
+	"⊗": "(x)",
+	"≤": "<=",
+	"≥": ">=",
+	"≠": "!=",
+	"≪": "<<",
+	"≫": ">>",
+	"≈": "~=",
+	"≃": "~=",
+	"≅": "~=",
+	"≡": "==",
+	"∼": "~",
+	"∝": "~",
+	"∞": "inf",
+	"∂": "d",
+	"∇": "nabla",
+	"∑": "sum",
+	"∏": "prod",
+	"∐": "coprod",
+	"∫": "int",
+	"∬": "iint",
+	"∭": "iiint",
+	"∮": "oint",
+	"√": "sqrt",
+	"∛": "cbrt",
+	"∜": "root4",
+	"∈": "in",
+	"∉": "not in",
+	"∋": "ni",
+	"⊂": "subset",
+	"⊆": "subseteq",
+	"⊃": "supset",
+	"⊇": "supseteq",
+	"∪": "cup",
+	"∩": "cap",
+	"∖": "\\",
+	"∅": "{}",
+	"∀": "for all",
+	"∃": "exists",
+	"∄": "not exists",
+	"¬": "not",
+	"∧": "and",
+	"∨": "or",
+	"⊤": "T",
+	"⊥": "_|_",
+	"∥": "||",
+	"‖": "||",
+	"∣": "|",
+	"∠": "angle",
+	"°": "deg",
+	"∴": "therefore",
+	"∵": "because",
+	ℏ: "hbar",
+	ℵ: "aleph",
+	"⟨": "<",
+	"⟩": ">",
+	"⌊": "[",
+	"⌋": "]",
+	"⌈": "[",
+	"⌉": "]",
+	"⁄": "/",
+};
+
+const GREEK_NAMES: Record<string, string> = {
+	α: "alpha",
+	β: "beta",
+	γ: "gamma",
+	δ: "delta",
+	ε: "epsilon",
+	ϵ: "epsilon",
+	ζ: "zeta",
+	η: "eta",
+	θ: "theta",
+	ϑ: "theta",
+	ι: "iota",
+	κ: "kappa",
+	λ: "lambda",
+	μ: "mu",
+	ν: "nu",
+	ξ: "xi",
+	ο: "o",
+	π: "pi",
+	ϖ: "pi",
+	ρ: "rho",
+	ϱ: "rho",
+	σ: "sigma",
+	ς: "sigma",
+	τ: "tau",
+	υ: "upsilon",
+	φ: "phi",
+	ϕ: "phi",
+	χ: "chi",
+	ψ: "psi",
+	ω: "omega",
+	Γ: "Gamma",
+	Δ: "Delta",
+	Θ: "Theta",
+	Λ: "Lambda",
+	Ξ: "Xi",
+	Π: "Pi",
+	Σ: "Sigma",
+	Υ: "Upsilon",
+	Φ: "Phi",
+	Ψ: "Psi",
+	Ω: "Omega",
+};
+
+/** Box-drawing lines; every other box-drawing character is a corner or joint */
+const HORIZONTAL_LINES = "─━┄┅┈┉╌╍╴╶╸╺╼╾";
+const VERTICAL_LINES = "│┃┆┇┊┋╎╏║╵╷╹╻╽╿";
+
+const BOX_DRAWING_PATTERN = /^[─-╿]$/;
+
+/** Block elements such as the ▌ heading prefixes */
+const BLOCK_ELEMENT_PATTERN = /^[▀-▟]$/;
+
+/** ⓪ to ㊿, written as (0) to (50) */
+const CIRCLED_NUMBER_PATTERN = /^[⓪①-⑳㉑-㉟㊱-㊿]$/;
+
+const SUPERSCRIPT_RUN_PATTERN =
+	/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻⁼⁽⁾ᵃᵇᶜᵈᵉᶠᵍʰⁱʲᵏˡᵐⁿᵒᵖʳˢᵗᵘᵛʷˣʸᶻᴬᴮᴰᴱᴳᴴᴵᴶᴷᴸᴹᴺᴼᴾᴿᵀᵁⱽᵂ]+/g;
+const SUBSCRIPT_RUN_PATTERN = /[₀₁₂₃₄₅₆₇₈₉₊₋₌₍₎ₐₑₕᵢⱼₖₗₘₙₒₚᵣₛₜᵤᵥₓ]+/g;
+
+/** Emoji such as callout icons, with joiners, variation selectors and skin tones */
+const EMOJI_SOURCE =
+	"(?:\\p{Extended_Pictographic}|\\u200d|\\ufe0f|[\\u{1f3fb}-\\u{1f3ff}])";
+const EMOJI_PATTERN = new RegExp(`^${EMOJI_SOURCE}$`, "u");
+/** An emoji run with the spaces around it, of which at most one is kept */
+const EMOJI_RUN_PATTERN = new RegExp(
+	`([ \\t]?)(${EMOJI_SOURCE}+)([ \\t]?)`,
+	"gu",
+);
+
+const ASCII_PATTERN = /^[\t\n\r -~]*$/;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Replace non-ASCII symbols with ASCII equivalents. Characters without one
+ * (letters of other scripts) are kept. Substitutions are listed in order of
+ * first occurrence.
+ */
+export function toAsciiSafe(
+	text: string,
+	settings: MarkdownConversionSettings,
+): { text: string; substitutions: AsciiSubstitution[] } {
+	const substitutions = new Map<string, AsciiSubstitution>();
+	const record = (from: string, to: string): string => {
+		const entry = substitutions.get(from);
+		if (entry) entry.count++;
+		else substitutions.set(from, { from, to, count: 1 });
+		return to;
+	};
+
+	// The preset's own checkbox and task status symbols map back to [x], [ ], [/], …
+	let result = text;
+	for (const [symbol, ascii] of getTaskSymbols(settings)) {
+		result = result
+			.split(symbol)
+			.map((part, index) => (index === 0 ? part : record(symbol, ascii) + part))
+			.join("");
+	}
+
+	// End of the last replacement that ended in a space, so "αβ" is not
+	// spaced twice
+	let spacedUntil = -1;
+	result = result
+		.replace(SUPERSCRIPT_RUN_PATTERN, (run) => record(run, `^${fold(run)}`))
+		.replace(SUBSCRIPT_RUN_PATTERN, (run) => record(run, `_${fold(run)}`))
+		.replace(/[^\t\n\r -~]/gu, (char, offset: number, source: string) => {
+			const ascii = transliterate(char);
+			if (ascii === null) return char;
+			record(char, ascii);
+			const spaced = offset === spacedUntil;
+			const padded = padWord(ascii, source, offset, char.length, spaced);
+			if (padded.endsWith(" ")) spacedUntil = offset + char.length;
+			return padded;
+		})
+		.replace(
+			EMOJI_RUN_PATTERN,
+			(
+				_,
+				before: string,
+				emoji: string,
+				after: string,
+				offset: number,
+				source: string,
+			) => {
+				record(emoji, "");
+				const lineStart = offset === 0 || source[offset - 1] === "\n";
+				return lineStart && !before ? "" : before || after;
+			},
+		);
+
+	return { text: result, substitutions: [...substitutions.values()] };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Symbols the preset draws for checkboxes and task statuses */
+function getTaskSymbols(
+	settings: MarkdownConversionSettings,
+): Array<[string, string]> {
+	const symbols: Array<[string, string]> = [
+		[settings.checkboxChecked, "[x]"],
+		[settings.checkboxUnchecked, "[ ]"],
+		...Object.entries(settings.taskStatuses).map(
+			([status, symbol]): [string, string] => [symbol, `[${status}]`],
+		),
+	];
+	return symbols.filter(([symbol]) => symbol && !ASCII_PATTERN.test(symbol));
+}
+
+/** ASCII for one character, "" to drop it, or null when there is none */
+function transliterate(char: string): string | null {
+	if (char in SYMBOLS) return SYMBOLS[char];
+	// Removed by the emoji pass, together with a surrounding space
+	if (EMOJI_PATTERN.test(char)) return null;
+	if (BOX_DRAWING_PATTERN.test(char)) {
+		if (char === "═") return "=";
+		if (HORIZONTAL_LINES.includes(char)) return "-";
+		if (VERTICAL_LINES.includes(char)) return "|";
+		return "+";
+	}
+	if (BLOCK_ELEMENT_PATTERN.test(char)) return "#";
+	if (CIRCLED_NUMBER_PATTERN.test(char)) return `(${fold(char)})`;
+
+	const unstyled = removeUnicodeStyles(char);
+	if (unstyled !== char) return unstyled;
+
+	// Compatibility forms (ℝ, ½, ﬁ) and accented letters, without their marks
+	const folded = fold(char);
+	if (ASCII_PATTERN.test(folded)) return folded;
+	if (folded in GREEK_NAMES) return GREEK_NAMES[folded];
+	return null;
+}
+
+/** Compatibility decomposition without combining marks */
+function fold(text: string): string {
+	return text.normalize("NFKD").replace(/\p{M}/gu, "").replace(/⁄/g, "/");
+}
+
+/**
+ * Keep words such as "in" or "sum" apart from the letters around them.
+ * No space is added before when the previous output already ends in one.
+ */
+function padWord(
+	ascii: string,
+	source: string,
+	offset: number,
+	length: number,
+	spaced: boolean,
+): string {
+	if (!/^[a-z]{2}/i.test(ascii)) return ascii;
+	const before =
+		!spaced && /[\p{L}\p{N}]$/u.test(source.slice(0, offset)) ? " " : "";
+	const after = /^[\p{L}\p{N}]/u.test(source.slice(offset + length)) ? " " : "";
+	return `${before}${ascii}${after}`;
+}
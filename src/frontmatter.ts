@@ -0,0 +1,109 @@
+/**
+ * YAML frontmatter detection and a small parser for the flat key/value
+ * subset notes use (scalars, lists, block strings), without a YAML library.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Frontmatter {
+	/** The frontmatter block as written, including the --- fences */
+	raw: string;
+	/** Values in document order; lists are joined with ", " */
+	values: Record<string, string>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** --- fences at the very start of the text; the closing fence may be ... */
+const FRONTMATTER_PATTERN =
+	/^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const KEY_PATTERN = /^([^\s#:][^:]*?):(?:[ \t]+(.*))?$/;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Split leading frontmatter from the body; null when there is none */
+export function splitFrontmatter(markdown: string): {
+	frontmatter: Frontmatter | null;
+	body: string;
+} {
+	const match = FRONTMATTER_PATTERN.exec(markdown);
+	if (!match || !looksLikeYaml(match[1] ?? "")) {
+		return { frontmatter: null, body: markdown };
+	}
+
+	return {
+		frontmatter: {
+			raw: match[0].replace(/\r?\n$/, ""),
+			values: parseFrontmatterValues(match[1] ?? ""),
+		},
+		body: markdown.slice(match[0].length).replace(/^\s*\n/, ""),
+	};
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Rule out a thematic break (---) that happens to open the text */
+function looksLikeYaml(yaml: string): boolean {
+	const first = yaml.split(/\r?\n/).find((line) => line.trim());
+	return first === undefined || /^#/.test(first) || KEY_PATTERN.test(first);
+}
+
+/** Parse top-level keys; nested mappings are skipped */
+function parseFrontmatterValues(yaml: string): Record<string, string> {
+	const values: Record<string, string> = {};
+	const lines = yaml.split(/\r?\n/);
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = KEY_PATTERN.exec(lines[i]);
+		if (!match) continue;
+
+		const key = match[1].trim();
+		const value = (match[2] ?? "").replace(/\s+#.*$/, "").trim();
+
+		// Indented lines below the key: a list, a block string or a mapping
+		const nested: string[] = [];
+		while (i + 1 < lines.length && /^(?:\s|-\s|$)/.test(lines[i + 1])) {
+			if (lines[i + 1].trim()) nested.push(lines[i + 1].trim());
+			i++;
+		}
+
+		if (/^[|>][+-]?$/.test(value)) {
+			values[key] = nested.join(value.startsWith("|") ? "\n" : " ");
+		} else if (value) {
+			values[key] = parseScalar(value);
+		} else if (nested.length > 0 && nested.every((l) => l.startsWith("-"))) {
+			values[key] = nested
+				.map((item) => parseScalar(item.replace(/^-\s*/, "")))
+				.join(", ");
+		} else if (nested.length === 0) {
+			values[key] = "";
+		}
+	}
+	return values;
+}
+
+/** Unquote strings and flatten [inline, lists] */
+function parseScalar(value: string): string {
+	if (value.startsWith("[") && value.endsWith("]")) {
+		return value
+			.slice(1, -1)
+			.split(",")
+			.map((item) => parseScalar(item.trim()))
+			.filter((item) => item)
+			.join(", ");
+	}
+	const quoted = /^(["'])([\s\S]*)\1$/.exec(value);
+	if (!quoted) return value === "null" || value === "~" ? "" : value;
+	return quoted[1] === '"'
+		? quoted[2].replace(/\\"/g, '"').replace(/\\n/g, "\n")
+		: quoted[2].replace(/''/g, "'");
+}
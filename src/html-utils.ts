@@ -0,0 +1,91 @@
+/**
+ * HTML helpers for turning inline and block HTML into plain text.
+ * Covers entity decoding, escaping and tag stripping; tag translation lives in the converter.
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Named entities commonly found in notes, decoded without a DOM */
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: "\u00a0",
+	ensp: "\u2002",
+	emsp: "\u2003",
+	thinsp: "\u2009",
+	shy: "\u00ad",
+	copy: "©",
+	reg: "®",
+	trade: "™",
+	hellip: "…",
+	mdash: "—",
+	ndash: "–",
+	lsquo: "‘",
+	rsquo: "’",
+	ldquo: "“",
+	rdquo: "”",
+	laquo: "«",
+	raquo: "»",
+	middot: "·",
+	bull: "•",
+	deg: "°",
+	plusmn: "±",
+	times: "×",
+	divide: "÷",
+	minus: "−",
+	le: "≤",
+	ge: "≥",
+	ne: "≠",
+	larr: "←",
+	rarr: "→",
+	uarr: "↑",
+	darr: "↓",
+	harr: "↔",
+	euro: "€",
+	pound: "£",
+	yen: "¥",
+	cent: "¢",
+	sect: "§",
+	para: "¶",
+};
+
+const ENTITY_PATTERN =
+	/&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z][a-zA-Z0-9]*));/g;
+
+/** Opening, closing or self-closing tags, plus comments */
+const TAG_PATTERN = /<!--[\s\S]*?-->|<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>/g;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Decode named and numeric character references; unknown names are kept */
+export function decodeHtmlEntities(text: string): string {
+	return text.replace(ENTITY_PATTERN, (entity, dec, hex, name) => {
+		if (name) return NAMED_ENTITIES[name] ?? entity;
+
+		const codePoint = dec ? Number.parseInt(dec, 10) : Number.parseInt(hex, 16);
+		return codePoint > 0 && codePoint <= 0x10ffff
+			? String.fromCodePoint(codePoint)
+			: entity;
+	});
+}
+
+/** Escape text for use in HTML content and double-quoted attributes */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/** Remove tags and comments, keeping the text between them */
+export function stripHtmlTags(html: string): string {
+	return html.replace(TAG_PATTERN, "");
+}
@@ -0,0 +1,542 @@
+/**
+ * LaTeX math to Unicode translator for a practical subset of TeX:
+ * Greek letters, super/subscripts, fractions, roots, operators, arrows
+ * and the \mathbb / \mathcal style alphabets.
+ */
+
+import type { UnicodeStyle } from "./types";
+import { applyUnicodeStyle } from "./unicode-styles";
+
+// =============================================================================
+// Symbol Tables
+// =============================================================================
+
+const GREEK: Record<string, string> = {
+	alpha: "α",
+	beta: "β",
+	gamma: "γ",
+	delta: "δ",
+	epsilon: "ϵ",
+	varepsilon: "ε",
+	zeta: "ζ",
+	eta: "η",
+	theta: "θ",
+	vartheta: "ϑ",
+	iota: "ι",
+	kappa: "κ",
+	lambda: "λ",
+	mu: "μ",
+	nu: "ν",
+	xi: "ξ",
+	pi: "π",
+	varpi: "ϖ",
+	rho: "ρ",
+	varrho: "ϱ",
+	sigma: "σ",
+	varsigma: "ς",
+	tau: "τ",
+	upsilon: "υ",
+	phi: "ϕ",
+	varphi: "φ",
+	chi: "χ",
+	psi: "ψ",
+	omega: "ω",
+	Gamma: "Γ",
+	Delta: "Δ",
+	Theta: "Θ",
+	Lambda: "Λ",
+	Xi: "Ξ",
+	Pi: "Π",
+	Sigma: "Σ",
+	Upsilon: "Υ",
+	Phi: "Φ",
+	Psi: "Ψ",
+	Omega: "Ω",
+};
+
+const OPERATORS: Record<string, string> = {
+	times: "×",
+	cdot: "⋅",
+	div: "÷",
+	pm: "±",
+	mp: "∓",
+	ast: "∗",
+	star: "⋆",
+	circ: "∘",
+	bullet: "∙",
+	oplus: "⊕",
+	otimes: "⊗",
+	le: "≤",
+	leq: "≤",
+	ge: "≥",
+	geq: "≥",
+	ne: "≠",
+	neq: "≠",
+	ll: "≪",
+	gg: "≫",
+	approx: "≈",
+	equiv: "≡",
+	sim: "∼",
+	simeq: "≃",
+	cong: "≅",
+	propto: "∝",
+	infty: "∞",
+	partial: "∂",
+	nabla: "∇",
+	sum: "∑",
+	prod: "∏",
+	coprod: "∐",
+	int: "∫",
+	iint: "∬",
+	iiint: "∭",
+	oint: "∮",
+	in: "∈",
+	notin: "∉",
+	ni: "∋",
+	subset: "⊂",
+	subseteq: "⊆",
+	supset: "⊃",
+	supseteq: "⊇",
+	cup: "∪",
+	cap: "∩",
+	setminus: "∖",
+	emptyset: "∅",
+	varnothing: "∅",
+	forall: "∀",
+	exists: "∃",
+	nexists: "∄",
+	neg: "¬",
+	lnot: "¬",
+	land: "∧",
+	wedge: "∧",
+	lor: "∨",
+	vee: "∨",
+	top: "⊤",
+	bot: "⊥",
+	perp: "⊥",
+	parallel: "∥",
+	mid: "∣",
+	angle: "∠",
+	degree: "°",
+	prime: "′",
+	ldots: "…",
+	dots: "…",
+	cdots: "⋯",
+	vdots: "⋮",
+	ddots: "⋱",
+	therefore: "∴",
+	because: "∵",
+	hbar: "ℏ",
+	ell: "ℓ",
+	Re: "ℜ",
+	Im: "ℑ",
+	aleph: "ℵ",
+	langle: "⟨",
+	rangle: "⟩",
+	lfloor: "⌊",
+	rfloor: "⌋",
+	lceil: "⌈",
+	rceil: "⌉",
+	vert: "|",
+	Vert: "‖",
+};
+
+const ARROWS: Record<string, string> = {
+	to: "→",
+	rightarrow: "→",
+	leftarrow: "←",
+	gets: "←",
+	leftrightarrow: "↔",
+	uparrow: "↑",
+	downarrow: "↓",
+	updownarrow: "↕",
+	Rightarrow: "⇒",
+	Leftarrow: "⇐",
+	Leftrightarrow: "⇔",
+	Uparrow: "⇑",
+	Downarrow: "⇓",
+	implies: "⟹",
+	impliedby: "⟸",
+	iff: "⟺",
+	mapsto: "↦",
+	longrightarrow: "⟶",
+	longleftarrow: "⟵",
+	longmapsto: "⟼",
+	hookrightarrow: "↪",
+	hookleftarrow: "↩",
+	nearrow: "↗",
+	searrow: "↘",
+	nwarrow: "↖",
+	swarrow: "↙",
+	rightleftharpoons: "⇌",
+};
+
+/** Symbols written next to the variable that follows them, like Greek letters */
+const GLUED_SYMBOLS = ["partial", "nabla", "hbar", "ell"];
+
+/** Spacing commands, rendered as at most one space */
+const SPACES: Record<string, string> = {
+	",": " ",
+	":": " ",
+	";": " ",
+	"!": "",
+	" ": " ",
+	quad: " ",
+	qquad: " ",
+};
+
+/** Commands that set their argument in a Unicode alphabet */
+const STYLE_COMMANDS: Record<string, UnicodeStyle | null> = {
+	mathbb: "double-struck",
+	mathcal: "script",
+	mathscr: "script",
+	mathbf: "bold",
+	boldsymbol: "bold",
+	mathit: "italic",
+	mathsf: "sans",
+	mathtt: "monospace",
+	mathrm: null,
+	text: null,
+	textrm: null,
+	operatorname: null,
+};
+
+/** Commands that are dropped, keeping what follows */
+const IGNORED_COMMANDS = [
+	"left",
+	"right",
+	"big",
+	"Big",
+	"bigg",
+	"Bigg",
+	"displaystyle",
+];
+
+const SUPERSCRIPTS: Record<string, string> = {
+	"0": "⁰",
+	"1": "¹",
+	"2": "²",
+	"3": "³",
+	"4": "⁴",
+	"5": "⁵",
+	"6": "⁶",
+	"7": "⁷",
+	"8": "⁸",
+	"9": "⁹",
+	"+": "⁺",
+	"-": "⁻",
+	"−": "⁻",
+	"=": "⁼",
+	"(": "⁽",
+	")": "⁾",
+	a: "ᵃ",
+	b: "ᵇ",
+	c: "ᶜ",
+	d: "ᵈ",
+	e: "ᵉ",
+	f: "ᶠ",
+	g: "ᵍ",
+	h: "ʰ",
+	i: "ⁱ",
+	j: "ʲ",
+	k: "ᵏ",
+	l: "ˡ",
+	m: "ᵐ",
+	n: "ⁿ",
+	o: "ᵒ",
+	p: "ᵖ",
+	r: "ʳ",
+	s: "ˢ",
+	t: "ᵗ",
+	u: "ᵘ",
+	v: "ᵛ",
+	w: "ʷ",
+	x: "ˣ",
+	y: "ʸ",
+	z: "ᶻ",
+	A: "ᴬ",
+	B: "ᴮ",
+	D: "ᴰ",
+	E: "ᴱ",
+	G: "ᴳ",
+	H: "ᴴ",
+	I: "ᴵ",
+	J: "ᴶ",
+	K: "ᴷ",
+	L: "ᴸ",
+	M: "ᴹ",
+	N: "ᴺ",
+	O: "ᴼ",
+	P: "ᴾ",
+	R: "ᴿ",
+	T: "ᵀ",
+	U: "ᵁ",
+	V: "ⱽ",
+	W: "ᵂ",
+	"′": "′",
+	"∗": "*",
+	"*": "*",
+	"∘": "°",
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+	"0": "₀",
+	"1": "₁",
+	"2": "₂",
+	"3": "₃",
+	"4": "₄",
+	"5": "₅",
+	"6": "₆",
+	"7": "₇",
+	"8": "₈",
+	"9": "₉",
+	"+": "₊",
+	"-": "₋",
+	"−": "₋",
+	"=": "₌",
+	"(": "₍",
+	")": "₎",
+	a: "ₐ",
+	e: "ₑ",
+	h: "ₕ",
+	i: "ᵢ",
+	j: "ⱼ",
+	k: "ₖ",
+	l: "ₗ",
+	m: "ₘ",
+	n: "ₙ",
+	o: "ₒ",
+	p: "ₚ",
+	r: "ᵣ",
+	s: "ₛ",
+	t: "ₜ",
+	u: "ᵤ",
+	v: "ᵥ",
+	x: "ₓ",
+};
+
+/** Vulgar fraction characters for \frac with single digits */
+const VULGAR_FRACTIONS: Record<string, string> = {
+	"1/2": "½",
+	"1/3": "⅓",
+	"2/3": "⅔",
+	"1/4": "¼",
+	"3/4": "¾",
+	"1/5": "⅕",
+	"2/5": "⅖",
+	"3/5": "⅗",
+	"4/5": "⅘",
+	"1/6": "⅙",
+	"5/6": "⅚",
+	"1/7": "⅐",
+	"1/8": "⅛",
+	"3/8": "⅜",
+	"5/8": "⅝",
+	"7/8": "⅞",
+	"1/9": "⅑",
+};
+
+/** Results that need no parentheses as a fraction part or root argument */
+const ATOM_PATTERN = /^(?:[\p{L}\p{N}.′∂]+|[\p{L}\p{N}]\p{M}*)$/u;
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Recursive descent over TeX source. Each parse method consumes input from
+ * `pos` and returns the Unicode rendering of what it consumed.
+ */
+class LatexParser {
+	private pos = 0;
+
+	constructor(private readonly src: string) {}
+
+	/** Parse the whole input, dropping unbalanced closing braces */
+	parse(): string {
+		let result = this.parseSequence();
+		while (this.pos < this.src.length) {
+			this.pos++;
+			result += this.parseSequence();
+		}
+		return result;
+	}
+
+	/** Parse until the end of input or the closing brace of a group */
+	parseSequence(): string {
+		let result = "";
+		while (this.pos < this.src.length && this.src[this.pos] !== "}") {
+			result += this.parseUnit(result);
+		}
+		return result;
+	}
+
+	private parseUnit(previous: string): string {
+		const char = this.src[this.pos];
+
+		if (char === "\\") return this.parseCommand();
+		if (char === "{") return this.parseGroup();
+		if (char === "^" || char === "_") {
+			this.pos++;
+			const argument = this.parseArgument();
+			return char === "^"
+				? toScript(argument, SUPERSCRIPTS, "^")
+				: toScript(argument, SUBSCRIPTS, "_");
+		}
+		if (char === "&") {
+			// Alignment points in aligned environments
+			this.pos++;
+			return "";
+		}
+		if (/\s/.test(char)) {
+			this.pos++;
+			while (/\s/.test(this.src[this.pos] ?? "")) this.pos++;
+			return previous.endsWith(" ") ? "" : " ";
+		}
+		if (char === "'") {
+			this.pos++;
+			return "′";
+		}
+
+		this.pos++;
+		return char;
+	}
+
+	/** A braced group, a command, or a single character */
+	private parseArgument(): string {
+		while (this.src[this.pos] === " ") this.pos++;
+		const char = this.src[this.pos];
+		if (char === undefined) return "";
+		if (char === "{") return this.parseGroup();
+		if (char === "\\") return this.parseCommand();
+		this.pos++;
+		return char;
+	}
+
+	private parseGroup(): string {
+		this.pos++; // {
+		const content = this.parseSequence();
+		if (this.src[this.pos] === "}") this.pos++;
+		return content;
+	}
+
+	/** Optional [argument], as in \sqrt[3]{x} */
+	private parseOptionalArgument(): string | null {
+		if (this.src[this.pos] !== "[") return null;
+		const end = this.src.indexOf("]", this.pos);
+		if (end < 0) return null;
+		const argument = convertLatexToUnicode(this.src.slice(this.pos + 1, end));
+		this.pos = end + 1;
+		return argument;
+	}
+
+	private parseCommand(): string {
+		const match = /^\\([a-zA-Z]+|.?)/.exec(this.src.slice(this.pos));
+		const name = match?.[1] ?? "";
+		this.pos += 1 + name.length;
+
+		// Escaped characters and line breaks
+		if (name === "\\") return "\n";
+		if (name in SPACES) return SPACES[name];
+		if (/^[{}$%&#_]$/.test(name)) return name;
+
+		// TeX ignores the space ending a control word; keep it only around
+		// operators, where it reads better: \pi r → πr but x \in A → x ∈ A
+		if (name in GREEK || GLUED_SYMBOLS.includes(name)) {
+			if (/^ [a-zA-Z0-9]/.test(this.src.slice(this.pos))) this.pos++;
+			return GREEK[name] ?? OPERATORS[name];
+		}
+		if (name in OPERATORS) return OPERATORS[name];
+		if (name in ARROWS) return ARROWS[name];
+		if (IGNORED_COMMANDS.includes(name)) return "";
+
+		if (name in STYLE_COMMANDS) {
+			const style = STYLE_COMMANDS[name];
+			const argument = this.parseArgument();
+			return style ? applyUnicodeStyle(argument, style) : argument;
+		}
+
+		switch (name) {
+			case "frac":
+			case "dfrac":
+			case "tfrac":
+				return formatFraction(this.parseArgument(), this.parseArgument());
+			case "sqrt":
+				return formatRoot(this.parseOptionalArgument(), this.parseArgument());
+			case "overline":
+				return [...this.parseArgument()].map((c) => `${c}̅`).join("");
+			case "vec":
+				return `${this.parseArgument()}⃗`;
+			case "hat":
+				return `${this.parseArgument()}̂`;
+			case "bar":
+				return `${this.parseArgument()}̄`;
+			case "dot":
+				return `${this.parseArgument()}̇`;
+			case "tilde":
+				return `${this.parseArgument()}̃`;
+			case "begin":
+			case "end":
+				// Environment names such as {aligned}; rows split on \\
+				this.parseArgument();
+				return "";
+		}
+
+		// Unknown commands are kept as written, braced arguments included
+		const start = this.pos;
+		while (this.src[this.pos] === "{") this.parseGroup();
+		return `\\${name}${this.src.slice(start, this.pos)}`;
+	}
+}
+
+// =============================================================================
+// Formatting Helpers
+// =============================================================================
+
+/** Convert every character to a super/subscript, or fall back to ^(…) */
+function toScript(
+	text: string,
+	table: Record<string, string>,
+	marker: string,
+): string {
+	const chars = [...text];
+	if (chars.length > 0 && chars.every((char) => char in table)) {
+		return chars.map((char) => table[char]).join("");
+	}
+	return chars.length === 1 ? `${marker}${text}` : `${marker}(${text})`;
+}
+
+function formatFraction(numerator: string, denominator: string): string {
+	const vulgar = VULGAR_FRACTIONS[`${numerator}/${denominator}`];
+	if (vulgar) return vulgar;
+	return `${wrapUnlessAtom(numerator)}/${wrapUnlessAtom(denominator)}`;
+}
+
+function formatRoot(index: string | null, radicand: string): string {
+	const roots: Record<string, string> = {
+		"": "√",
+		"2": "√",
+		"3": "∛",
+		"4": "∜",
+	};
+	const sign =
+		roots[index ?? ""] ?? `${toScript(index ?? "", SUPERSCRIPTS, "")}√`;
+	return `${sign}${wrapUnlessAtom(radicand)}`;
+}
+
+function wrapUnlessAtom(text: string): string {
+	return ATOM_PATTERN.test(text) ? text : `(${text})`;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Translate TeX math source to Unicode text; unsupported commands stay as written */
+export function convertLatexToUnicode(tex: string): string {
+	return new LatexParser(tex.trim())
+		.parse()
+		.split("\n")
+		.map((line) => line.trim())
+		.join("\n");
+}
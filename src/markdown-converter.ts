@@ -3,18 +3,194 @@
  * Converts markdown syntax to Unicode-formatted plain text.
  */
 
-import { Lexer, type Token, type Tokens } from "marked";
-import type { CustomRule, MarkdownConversionSettings } from "./types";
+import { Marked, type Token, type Tokens } from "marked";
+import { toAsciiSafe } from "./ascii-safe";
+import { type Frontmatter, splitFrontmatter } from "./frontmatter";
+import { decodeHtmlEntities, escapeHtml, stripHtmlTags } from "./html-utils";
+import { convertLatexToUnicode } from "./latex-to-unicode";
+import {
+	type Callout,
+	type CommentToken,
+	type FootnoteDefToken,
+	type FootnoteRefToken,
+	type HighlightToken,
+	type HtmlElementToken,
+	isBareLink,
+	type MathToken,
+	obsidianExtensions,
+	parseCallout,
+	type TagToken,
+	type UnderlineToken,
+	type WikilinkToken,
+} from "./markdown-extensions";
+import { bbcodeRenderer } from "./renderers/bbcode";
+import { htmlRenderer } from "./renderers/html";
+import { jiraRenderer } from "./renderers/jira";
+import { slackRenderer } from "./renderers/slack";
+import type {
+	CodeBlockMode,
+	ConversionOptions,
+	CustomRule,
+	HeadingTransform,
+	MarkdownConversionSettings,
+	OutputFormat,
+	WrapDecorationMode,
+} from "./types";
+import { applyUnicodeStyle } from "./unicode-styles";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-interface RenderContext {
+export interface RenderContext {
 	settings: MarkdownConversionSettings;
+	options: ConversionOptions;
+	/** Output format overrides consulted before the plain text rendering */
+	renderer: OutputRenderer;
 	listDepth: number;
+	/** Item numbers of the enclosing ordered lists, for outline numbering */
+	listNumbers: number[];
+	/** Whether each enclosing list item has later siblings, for tree connectors */
+	listBranches: boolean[];
+	embedDepth: number;
+	/** Columns left for content after enclosing prefixes (Infinity: no wrap) */
+	lineWidth: number;
+	footnotes: FootnoteState;
+	/** URLs collected for reference-style links, numbered by position */
+	linkReferences: string[];
 }
 
+/** Renders one token for an output format, e.g. Slack mrkdwn */
+export type TokenRenderer = (
+	token: Token,
+	ctx: RenderContext,
+	helpers: RenderHelpers,
+) => string;
+
+/**
+ * Overrides for an output format. Tokens without an override are rendered
+ * as plain text, so a format only covers what differs.
+ */
+export interface OutputRenderer {
+	tokens: Partial<Record<string, TokenRenderer>>;
+	/** The target reflows text itself, so line wrapping is skipped */
+	reflows?: boolean;
+	/** Escape literal text placed outside tokens, e.g. frontmatter values */
+	escape?(text: string): string;
+	/** Wrap a block built outside the token stream (frontmatter, notes, link references) */
+	block?(text: string): string;
+	/** Wrap the rendered items of a list */
+	list?(items: string, token: Tokens.List): string;
+	/** Assemble a list item from its bullet, rendered content and nested lists */
+	listItem?(
+		bullet: string | null,
+		content: string,
+		nested: string,
+		isTask: boolean,
+	): string;
+}
+
+/** Pipeline functions handed to output renderers for nested content */
+export interface RenderHelpers {
+	renderTokens(tokens: Token[], ctx: RenderContext): string;
+	/** Lex and render a markdown fragment, e.g. a callout title */
+	renderMarkdown(markdown: string, ctx: RenderContext): string;
+	/** The plain text rendering of a token, ignoring the override */
+	renderPlain(token: Token, ctx: RenderContext): string;
+	/**
+	 * The plain text rendering of a token and everything inside it, for
+	 * output placed in a code block such as a table grid
+	 */
+	renderPlainText(token: Token, ctx: RenderContext): string;
+}
+
+/** Footnotes collected up front and numbered in order of first reference */
+interface FootnoteState {
+	definitions: Map<string, FootnoteDefToken>;
+	numbers: Map<string, number>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Maximum nesting of transcluded notes (guards against embed cycles) */
+const MAX_EMBED_DEPTH = 3;
+
+/** Alternative callout type names Obsidian maps onto the built-in types */
+const CALLOUT_ALIASES: Record<string, string> = {
+	summary: "abstract",
+	tldr: "abstract",
+	hint: "tip",
+	important: "tip",
+	check: "success",
+	done: "success",
+	help: "question",
+	faq: "question",
+	caution: "warning",
+	attention: "warning",
+	fail: "failure",
+	missing: "failure",
+	error: "danger",
+	cite: "quote",
+};
+
+/** File types Obsidian embeds as images */
+const IMAGE_EXTENSIONS = [
+	"avif",
+	"bmp",
+	"gif",
+	"jpeg",
+	"jpg",
+	"png",
+	"svg",
+	"webp",
+];
+
+/** Obsidian image size suffix: |300 or |300x200 */
+const IMAGE_SIZE_PATTERN = /(?:^|\|)\d+(?:x\d+)?$/;
+
+/** Task status marker such as [/] that marked does not recognise as a checkbox */
+const TASK_STATUS_PATTERN = /^\[([^\]\n])\][ \t]+/;
+
+/** Narrowest column count content is wrapped to, however deep the nesting */
+const MIN_LINE_WIDTH = 10;
+
+/** East Asian wide and fullwidth characters, which take two columns */
+const WIDE_CHAR_SOURCE =
+	"[\\u1100-\\u115f\\u2e80-\\u303e\\u3041-\\u33ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\ua000-\\ua4cf\\uac00-\\ud7a3\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uff60\\uffe0-\\uffe6\\u{1f300}-\\u{1f64f}\\u{1f900}-\\u{1f9ff}\\u{20000}-\\u{3fffd}]";
+const WIDE_CHAR_PATTERN = new RegExp(WIDE_CHAR_SOURCE, "gu");
+
+/**
+ * Wrap units: whitespace runs, single wide characters, or other runs.
+ * Combining marks (such as the strikethrough overlay) stay with the
+ * character before them, so a mark on a space is dropped at a break.
+ */
+const WRAP_UNIT_PATTERN = new RegExp(
+	`(?:\\s\\p{M}*)+|${WIDE_CHAR_SOURCE}\\p{M}*|(?:(?!${WIDE_CHAR_SOURCE})\\S)+`,
+	"gu",
+);
+
+/** Shared parser with Obsidian syntax extensions registered */
+const markdownParser = new Marked({ extensions: obsidianExtensions });
+
+/** Overrides per output format; plain text needs none */
+const OUTPUT_RENDERERS: Record<OutputFormat, OutputRenderer> = {
+	plain: { tokens: {} },
+	slack: slackRenderer,
+	bbcode: bbcodeRenderer,
+	jira: jiraRenderer,
+};
+
+const RENDER_HELPERS: RenderHelpers = {
+	renderTokens,
+	renderMarkdown: (markdown, ctx) =>
+		renderTokens(markdownParser.lexer(markdown), ctx),
+	renderPlain: renderPlainToken,
+	renderPlainText: (token, ctx) =>
+		renderPlainToken(token, { ...ctx, renderer: OUTPUT_RENDERERS.plain }),
+};
+
 // =============================================================================
 // Main Entry Point
 // =============================================================================
@@ -23,44 +199,304 @@ interface RenderContext {
 export function convertMarkdownToPlainText(
 	markdown: string,
 	settings: MarkdownConversionSettings,
+	options: ConversionOptions = {},
 ): string {
-	// Master toggle - return raw input if disabled
+	// Master toggle - return raw input if disabled; frontmatter still
+	// follows its mode so a whole-note copy does not include raw YAML
 	if (!settings.enableMarkdownConversion) {
-		return markdown;
+		const { frontmatter, body } = splitFrontmatter(markdown);
+		const renderer = OUTPUT_RENDERERS.plain;
+		return renderFrontmatter(frontmatter, { settings, renderer }) + body;
 	}
 
-	// Separate before and after rules
-	const beforeRules = settings.customRules.filter(
-		(r) => r.applyBeforeConversion === true,
+	let result = renderDocument(
+		markdown,
+		settings,
+		options,
+		OUTPUT_RENDERERS[settings.outputFormat],
 	);
+
+	// ASCII-safe stage, before after rules so they see the final characters
+	if (settings.asciiSafe) {
+		const ascii = toAsciiSafe(result, settings);
+		result = ascii.text;
+		options.onAsciiSubstitutions?.(ascii.substitutions);
+	}
+
+	// Apply after rules
 	const afterRules = settings.customRules.filter(
 		(r) => r.applyBeforeConversion !== true,
 	);
+	return applyCustomRules(result, afterRules);
+}
+
+/**
+ * Convert markdown to an HTML fragment with inline styles, for rich text
+ * clipboard copies. After rules are skipped: they are written against text
+ * output and could break tags.
+ */
+export function convertMarkdownToHtml(
+	markdown: string,
+	settings: MarkdownConversionSettings,
+	options: ConversionOptions = {},
+): string {
+	if (!settings.enableMarkdownConversion) {
+		const { frontmatter, body } = splitFrontmatter(markdown);
+		const renderer = htmlRenderer;
+		const html = htmlRenderer.block?.(escapeHtml(body)) ?? body;
+		return renderFrontmatter(frontmatter, { settings, renderer }) + html;
+	}
+
+	return renderDocument(markdown, settings, options, htmlRenderer);
+}
+
+/** Frontmatter, before rules and rendering, shared by every output */
+function renderDocument(
+	markdown: string,
+	settings: MarkdownConversionSettings,
+	options: ConversionOptions,
+	renderer: OutputRenderer,
+): string {
+	// Frontmatter is only recognised at the very start of the input
+	const { frontmatter, body } = splitFrontmatter(markdown);
 
 	// Apply before rules
-	const text = applyCustomRules(markdown, beforeRules);
+	const text = applyCustomRules(body, getBeforeRules(settings));
 
 	// Markdown conversion
-	const lexer = new Lexer();
-	const tokens = lexer.lex(text);
-	const ctx: RenderContext = { settings, listDepth: 0 };
+	const tokens = markdownParser.lexer(text);
+	const ctx: RenderContext = {
+		settings,
+		options,
+		renderer,
+		listDepth: 0,
+		listNumbers: [],
+		listBranches: [],
+		embedDepth: 0,
+		lineWidth:
+			settings.enableLineWrap && !renderer.reflows
+				? settings.lineWrapWidth
+				: Infinity,
+		footnotes: { definitions: new Map(), numbers: new Map() },
+		linkReferences: [],
+	};
+	collectFootnotes(tokens, ctx.footnotes);
 	let result = renderTokens(tokens, ctx);
+	result = appendFootnoteSection(result, ctx);
+	result = appendLinkReferences(result, ctx);
+	return renderFrontmatter(frontmatter, ctx) + result;
+}
 
-	// Apply after rules
-	result = applyCustomRules(result, afterRules);
+// =============================================================================
+// Frontmatter
+// =============================================================================
 
-	return result;
+function renderFrontmatter(
+	frontmatter: Frontmatter | null,
+	ctx: Pick<RenderContext, "settings" | "renderer">,
+): string {
+	if (!frontmatter) return "";
+
+	const { settings } = ctx;
+	const { values } = frontmatter;
+	let keys: string[];
+	switch (settings.frontmatterMode) {
+		case "strip":
+			return "";
+		case "keep":
+			return formatBlock(`${escapeOutput(frontmatter.raw, ctx)}\n\n`, ctx);
+		case "header":
+			keys = Object.keys(values);
+			break;
+		case "keys":
+			keys = settings.frontmatterKeys.filter((key) => key in values);
+			break;
+	}
+
+	const lines = keys
+		.filter((key) => values[key])
+		.map((key) => escapeOutput(`${key}: ${values[key]}`, ctx));
+	return lines.length > 0 ? formatBlock(`${lines.join("\n")}\n\n`, ctx) : "";
+}
+
+// =============================================================================
+// Output Helpers
+// =============================================================================
+
+/** Literal text outside the token stream, escaped for the output format */
+function escapeOutput(
+	text: string,
+	ctx: Pick<RenderContext, "renderer">,
+): string {
+	return ctx.renderer.escape?.(text) ?? text;
+}
+
+/** A block built outside the token stream, wrapped for the output format */
+function formatBlock(
+	text: string,
+	ctx: Pick<RenderContext, "renderer">,
+): string {
+	return ctx.renderer.block?.(text) ?? text;
+}
+
+// =============================================================================
+// Shared Overrides
+// =============================================================================
+
+/** The plain text rendering of a token, escaped for the output format */
+export function renderEscaped(token: Token, ctx: RenderContext): string {
+	return escapeOutput(renderPlainToken(token, ctx), ctx);
+}
+
+/** Block-level text renders its children, which escape themselves */
+export function renderEscapedText(token: Token, ctx: RenderContext): string {
+	return (token as Tokens.Text).tokens
+		? renderPlainToken(token, ctx)
+		: renderEscaped(token, ctx);
+}
+
+/** Embedded notes are rendered token by token and are escaped already */
+export function renderEscapedWikilink(
+	token: Token,
+	ctx: RenderContext,
+): string {
+	return (token as WikilinkToken).embed
+		? renderPlainToken(token, ctx)
+		: renderEscaped(token, ctx);
+}
+
+/**
+ * A callout's title rendered for the output format, or its type name with
+ * aliases resolved (tldr: Abstract) when it has none
+ */
+export function renderCalloutTitle(
+	callout: Callout,
+	ctx: RenderContext,
+): string {
+	if (callout.title) {
+		const tokens = markdownParser.Lexer.lexInline(
+			callout.title,
+			markdownParser.defaults,
+		);
+		return renderTokens(tokens, ctx).trim();
+	}
+	const type = CALLOUT_ALIASES[callout.type] ?? callout.type;
+	return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+/**
+ * Code block override for an output format. A block removed by its mode
+ * stays removed and a placeholder is kept as escaped plain text; the
+ * format's `wrap` only receives code that is shown.
+ */
+export function renderCodeBlock(
+	wrap: (code: Tokens.Code, lang: string) => string,
+): TokenRenderer {
+	return (token, ctx) => {
+		const code = token as Tokens.Code;
+		const lang = getCodeLanguage(code);
+		if (!ctx.settings.enableCodeBlock) return wrap(code, lang);
+
+		switch (getCodeBlockMode(lang, ctx)) {
+			case "remove":
+				return "";
+			case "placeholder":
+				return formatBlock(escapeOutput(renderCode(code, ctx), ctx), ctx);
+			default:
+				return wrap(code, lang);
+		}
+	};
 }
 
 // =============================================================================
 // Token Rendering - Core
 // =============================================================================
 
+/** Block tokens whose blank line is dropped when they render nothing */
+const REMOVABLE_BLOCKS = [
+	"list",
+	"code",
+	"comment",
+	"paragraph",
+	"footnoteDef",
+	"def",
+];
+
+/** Inline tokens whose surrounding spaces collapse when they render nothing */
+const REMOVABLE_INLINES = ["tag", "comment", "blockId"];
+
 function renderTokens(tokens: Token[], ctx: RenderContext): string {
-	return tokens.map((token) => renderToken(token, ctx)).join("");
+	let result = "";
+	let removedBlock = false;
+	let removedInline = false;
+	let afterEmbed = false;
+	for (const token of tokens) {
+		// A list emptied by the task filter, a removed code block or comment,
+		// a footnote or link definition or a paragraph holding only a block ID
+		// takes its blank line with it
+		if (removedBlock && token.type === "space") {
+			removedBlock = false;
+			continue;
+		}
+
+		// Only add a blank line before a heading when there is none yet
+		if (
+			token.type === "heading" &&
+			ctx.settings.enableHeadings &&
+			ctx.settings.headingBlankLineBefore &&
+			result &&
+			!result.endsWith("\n\n")
+		) {
+			result += "\n";
+		}
+		let output = renderToken(token, ctx);
+
+		// An HTML block of tags only (e.g. a closing </details>) renders just
+		// its blank line, which is dropped when there is one already
+		if (
+			token.type === "html" &&
+			!output.trim() &&
+			(!result || result.endsWith("\n\n"))
+		) {
+			output = "";
+		}
+
+		// "a #tag b" becomes "a b" rather than "a  b", with no space left
+		// at the end of a line
+		if (removedInline && /^\s/.test(output)) {
+			if (/(?:^|\s)$/.test(result)) output = output.replace(/^[ \t]+/, "");
+			if (output.startsWith("\n")) result = result.replace(/[ \t]+$/, "");
+		}
+		// An embed rendered as several lines gets lines of its own, so
+		// "Start ![[Note]] end" does not splice a list into the sentence
+		if (afterEmbed) output = output.replace(/^[ \t]*\n?/, "");
+		afterEmbed =
+			token.type === "wikilink" &&
+			(token as WikilinkToken).embed &&
+			output.includes("\n");
+		if (afterEmbed) {
+			result = result.replace(/[ \t]+$/, "");
+			if (result && !result.endsWith("\n")) result += "\n";
+			output += "\n";
+		}
+
+		removedInline = REMOVABLE_INLINES.includes(token.type) && output === "";
+		removedBlock = REMOVABLE_BLOCKS.includes(token.type) && output === "";
+		result += output;
+	}
+	if (removedInline) result = result.replace(/[ \t]+$/, "");
+	if (afterEmbed) result = result.replace(/\n$/, "");
+	return removedBlock ? result.replace(/\n\n$/, "\n") : result;
 }
 
 function renderToken(token: Token, ctx: RenderContext): string {
+	const override = ctx.renderer.tokens[token.type];
+	return override
+		? override(token, ctx, RENDER_HELPERS)
+		: renderPlainToken(token, ctx);
+}
+
+function renderPlainToken(token: Token, ctx: RenderContext): string {
 	switch (token.type) {
 		case "heading":
 			return renderHeading(token as Tokens.Heading, ctx);
@@ -74,6 +510,10 @@ function renderToken(token: Token, ctx: RenderContext): string {
 			return renderEm(token as Tokens.Em, ctx);
 		case "del":
 			return renderDel(token as Tokens.Del, ctx);
+		case "highlight":
+			return renderHighlight(token as HighlightToken, ctx);
+		case "underline":
+			return renderUnderline(token as UnderlineToken, ctx);
 		case "codespan":
 			return renderCodespan(token as Tokens.Codespan, ctx);
 		case "code":
@@ -82,10 +522,19 @@ function renderToken(token: Token, ctx: RenderContext): string {
 			return renderBlockquote(token as Tokens.Blockquote, ctx);
 		case "list":
 			return renderList(token as Tokens.List, ctx);
+		case "table":
+			return renderTable(token as Tokens.Table, ctx);
 		case "link":
 			return renderLink(token as Tokens.Link, ctx);
 		case "image":
-			return renderImage(token as Tokens.Image);
+			return renderImage(token as Tokens.Image, ctx);
+		case "wikilink":
+			return renderWikilink(token as WikilinkToken, ctx);
+		case "footnoteRef":
+			return renderFootnoteRef(token as FootnoteRefToken, ctx);
+		case "footnoteDef":
+			// Rendered in the notes section at the end
+			return ctx.settings.enableFootnotes ? "" : token.raw;
 		case "hr":
 			return ctx.settings.enableHorizontalRule
 				? `${ctx.settings.horizontalRule}\n`
@@ -96,9 +545,22 @@ function renderToken(token: Token, ctx: RenderContext): string {
 		case "checkbox":
 			return ""; // Handled by getBullet in list items
 		case "html":
-			return (token as Tokens.HTML).raw;
+			return renderHtml(token as Tokens.HTML, ctx);
+		case "htmlElement":
+			return renderHtmlElement(token as HtmlElementToken, ctx);
+		case "math":
+			return renderMath(token as MathToken, ctx);
+		case "tag":
+			return renderTag(token as TagToken, ctx);
+		case "blockId":
+			return ctx.settings.stripBlockIds ? "" : token.raw;
+		case "comment":
+			return renderComment(token as CommentToken, ctx);
 		case "escape":
 			return (token as Tokens.Escape).text;
+		case "def":
+			// Link reference definitions are resolved into their links
+			return "";
 		default:
 			return "raw" in token ? (token as { raw: string }).raw : "";
 	}
@@ -115,15 +577,42 @@ function renderHeading(token: Tokens.Heading, ctx: RenderContext): string {
 		return `${text}\n`;
 	}
 
+	const { settings } = ctx;
 	const prefixes: Record<number, string> = {
-		1: ctx.settings.heading1Prefix,
-		2: ctx.settings.heading2Prefix,
-		3: ctx.settings.heading3Prefix,
-		4: ctx.settings.heading4Prefix,
+		1: settings.heading1Prefix,
+		2: settings.heading2Prefix,
+		3: settings.heading3Prefix,
+		4: settings.heading4Prefix,
+		5: settings.heading5Prefix,
+		6: settings.heading6Prefix,
+	};
+	const transforms: Record<number, HeadingTransform> = {
+		1: settings.heading1Transform,
+		2: settings.heading2Transform,
+		3: settings.heading3Transform,
+		4: settings.heading4Transform,
+		5: settings.heading5Transform,
+		6: settings.heading6Transform,
 	};
 	const prefix = prefixes[token.depth] || "";
+	const transform = transforms[token.depth] ?? "none";
+
+	let content = text;
+	if (transform === "uppercase") {
+		content = text.toUpperCase();
+	} else if (transform !== "none" && transform !== "underline") {
+		content = applyUnicodeStyle(text, transform);
+	}
 
-	return `${prefix} ${text}\n`;
+	let line = prefix ? `${prefix} ${content}` : content;
+	if (transform === "underline") {
+		// Setext style: === under level 1, --- under the rest
+		const char = token.depth === 1 ? "=" : "-";
+		line += `\n${char.repeat(getDisplayWidth(line))}`;
+	}
+
+	const blankAfter = settings.headingBlankLineAfter ? "\n" : "";
+	return `${line}\n${blankAfter}`;
 }
 
 // =============================================================================
@@ -131,15 +620,25 @@ function renderHeading(token: Tokens.Heading, ctx: RenderContext): string {
 // =============================================================================
 
 function renderParagraph(token: Tokens.Paragraph, ctx: RenderContext): string {
-	return `${renderTokens(token.tokens, ctx)}\n`;
+	const text = renderTokens(token.tokens, ctx);
+	// Paragraphs left empty by a removed comment or block ID disappear
+	if (!text.trim()) return "";
+	return `${wrapText(text, ctx.lineWidth)}\n`;
 }
 
 function renderText(token: Tokens.Text, ctx: RenderContext): string {
-	return token.tokens ? renderTokens(token.tokens, ctx) : token.text;
+	// Only block-level text (tight list items) has child tokens; it wraps
+	// like a paragraph
+	if (token.tokens)
+		return wrapText(renderTokens(token.tokens, ctx), ctx.lineWidth);
+	// marked leaves entities such as &amp; escaped in text tokens
+	return ctx.settings.htmlMode === "keep"
+		? token.text
+		: decodeHtmlEntities(token.text);
 }
 
 // =============================================================================
-// Token Rendering - Text Decoration (Bold, Italic, Strikethrough)
+// Token Rendering - Text Decoration (Bold, Italic, Strikethrough, Highlight)
 // =============================================================================
 
 function renderStrong(token: Tokens.Strong, ctx: RenderContext): string {
@@ -148,7 +647,7 @@ function renderStrong(token: Tokens.Strong, ctx: RenderContext): string {
 		case "keep":
 			return `**${text}**`;
 		case "unicode":
-			return convertToBoldUnicode(text);
+			return applyUnicodeStyle(text, ctx.settings.boldStyle);
 		case "remove":
 			return text;
 	}
@@ -160,7 +659,7 @@ function renderEm(token: Tokens.Em, ctx: RenderContext): string {
 		case "keep":
 			return `*${text}*`;
 		case "unicode":
-			return convertToItalicUnicode(text);
+			return applyUnicodeStyle(text, ctx.settings.italicStyle);
 		case "remove":
 			return text;
 	}
@@ -172,31 +671,244 @@ function renderDel(token: Tokens.Del, ctx: RenderContext): string {
 		case "keep":
 			return `~~${text}~~`;
 		case "unicode":
-			return convertToStrikethrough(text);
+			return addCombiningMark(text, "\u0336");
+		case "remove":
+			return text;
+	}
+}
+
+function renderHighlight(token: HighlightToken, ctx: RenderContext): string {
+	const text = renderTokens(token.tokens, ctx);
+	const { highlightMode, highlightWrapper } = ctx.settings;
+	return renderWrapDecoration(text, highlightMode, highlightWrapper, {
+		markers: ["==", "=="],
+		combiningMark: "\u0333",
+	});
+}
+
+function renderUnderline(token: UnderlineToken, ctx: RenderContext): string {
+	const text = renderTokens(token.tokens, ctx);
+	const { underlineMode, underlineWrapper } = ctx.settings;
+	return renderWrapDecoration(text, underlineMode, underlineWrapper, {
+		markers: ["<u>", "</u>"],
+		combiningMark: "\u0332",
+	});
+}
+
+/** Apply a keep/remove/unicode/wrap mode to decorated text */
+function renderWrapDecoration(
+	text: string,
+	mode: WrapDecorationMode,
+	wrapper: string,
+	format: { markers: [string, string]; combiningMark: string },
+): string {
+	switch (mode) {
+		case "keep":
+			return `${format.markers[0]}${text}${format.markers[1]}`;
+		case "unicode":
+			return addCombiningMark(text, format.combiningMark);
+		case "wrap": {
+			const [open, close] = splitWrapper(wrapper);
+			return `${open}${text}${close}`;
+		}
 		case "remove":
 			return text;
 	}
 }
 
+/**
+ * Split a wrapper into opening and closing parts.
+ * A single character wraps both sides; otherwise the first half opens
+ * and the second half closes (【】 → 【 and 】).
+ */
+function splitWrapper(wrapper: string): [string, string] {
+	const chars = [...wrapper];
+	if (chars.length < 2) return [wrapper, wrapper];
+	const half = Math.ceil(chars.length / 2);
+	return [chars.slice(0, half).join(""), chars.slice(half).join("")];
+}
+
+// =============================================================================
+// Token Rendering - HTML
+// =============================================================================
+
+function renderHtml(token: Tokens.HTML, ctx: RenderContext): string {
+	const { htmlMode } = ctx.settings;
+	if (htmlMode === "keep") return token.raw;
+
+	const html =
+		htmlMode === "translate" ? translateHtmlTags(token.raw, ctx) : token.raw;
+	const text = decodeHtmlEntities(stripHtmlTags(html));
+	if (!token.block) return text;
+
+	// Drop lines left empty by removed tags (e.g. an opening <details>),
+	// keeping the blank lines that separate the block from what follows
+	const content = text.replace(/^\s*\n/, "").replace(/\s+$/, "");
+	const separator = (/\n*$/.exec(token.raw)?.[0] ?? "").slice(1);
+	return content ? `${content}\n${separator}` : separator;
+}
+
+function renderHtmlElement(
+	token: HtmlElementToken,
+	ctx: RenderContext,
+): string {
+	const text = renderTokens(token.tokens, ctx);
+	switch (ctx.settings.htmlMode) {
+		case "keep":
+			return `${token.openTag}${text}</${token.tag}>`;
+		case "strip":
+			return text;
+		case "translate":
+			return translateHtmlElement(token.tag, text, ctx);
+	}
+}
+
+/** Replace tags that have a plain text equivalent before the rest are stripped */
+function translateHtmlTags(html: string, ctx: RenderContext): string {
+	return html
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<summary(?:\s[^<>]*)?>([\s\S]*?)<\/summary>/gi, "$1\n")
+		.replace(
+			/<(sup|kbd)(?:\s[^<>]*)?>([\s\S]*?)<\/\1>/gi,
+			(_, tag: string, text: string) =>
+				translateHtmlElement(
+					tag.toLowerCase() as HtmlElementToken["tag"],
+					text,
+					ctx,
+				),
+		);
+}
+
+function translateHtmlElement(
+	tag: HtmlElementToken["tag"],
+	text: string,
+	ctx: RenderContext,
+): string {
+	if (tag === "sup") return convertToSuperscript(text);
+	const [open, close] = splitWrapper(ctx.settings.kbdWrapper);
+	return `${open}${text}${close}`;
+}
+
+// =============================================================================
+// Token Rendering - Math
+// =============================================================================
+
+function renderMath(token: MathToken, ctx: RenderContext): string {
+	const text = formatMath(token, ctx);
+	return token.block ? `${text}\n` : text;
+}
+
+function formatMath(token: MathToken, ctx: RenderContext): string {
+	switch (ctx.settings.mathMode) {
+		case "unicode":
+			return convertLatexToUnicode(token.text);
+		case "keep":
+			return token.raw.trim();
+		case "strip":
+			return token.text.trim();
+	}
+}
+
+// =============================================================================
+// Token Rendering - Tags & Comments
+// =============================================================================
+
+function renderTag(token: TagToken, ctx: RenderContext): string {
+	switch (ctx.settings.tagMode) {
+		case "keep":
+			return token.raw;
+		case "remove-hash":
+			return token.raw.slice(1);
+		case "remove":
+			return "";
+	}
+}
+
+function renderComment(token: CommentToken, ctx: RenderContext): string {
+	if (ctx.settings.removeComments) return "";
+	return token.block ? `${token.raw}\n` : token.raw;
+}
+
 // =============================================================================
 // Token Rendering - Code
 // =============================================================================
 
 function renderCodespan(token: Tokens.Codespan, ctx: RenderContext): string {
 	if (!ctx.settings.enableInlineCode) return token.text;
-	const w = ctx.settings.inlineCodeWrapper;
-	return `${w}${token.text}${w}`;
+	const { inlineCodeStyle, inlineCodeWrapper: w } = ctx.settings;
+	const text =
+		inlineCodeStyle === "none"
+			? token.text
+			: applyUnicodeStyle(token.text, inlineCodeStyle);
+	return `${w}${text}${w}`;
 }
 
 function renderCode(token: Tokens.Code, ctx: RenderContext): string {
-	if (!ctx.settings.enableCodeBlock) {
+	const { settings } = ctx;
+	if (!settings.enableCodeBlock) {
 		return `${token.text}\n`;
 	}
-	const prefix = ctx.settings.codeBlockPrefix;
-	return `${token.text
+
+	const lang = getCodeLanguage(token);
+	const mode = getCodeBlockMode(lang, ctx);
+	const prefix = settings.codeBlockPrefix;
+	const prefixed = token.text
 		.split("\n")
 		.map((line) => prefix + line)
-		.join("\n")}\n`;
+		.join("\n");
+
+	switch (mode) {
+		case "prefix":
+			return `${prefixed}\n`;
+		case "fenced": {
+			// The fence must be longer than any backtick run in the code
+			const longest = Math.max(
+				0,
+				...(token.text.match(/`+/g) ?? []).map((run) => run.length),
+			);
+			const fence = "`".repeat(Math.max(3, longest + 1));
+			return `${fence}${lang}\n${token.text}\n${fence}\n`;
+		}
+		case "boxed":
+			return renderCodeBox(token.text, lang);
+		case "header":
+			return `── ${lang || "code"} ──\n${prefixed}\n`;
+		case "placeholder":
+			return `${settings.codeBlockPlaceholder.replace(/\{lang\}/g, lang || "code")}\n`;
+		case "remove":
+			return "";
+	}
+}
+
+/** Only the language name, without attributes such as title="…" */
+function getCodeLanguage(token: Tokens.Code): string {
+	return (token.lang ?? "").trim().split(/\s/)[0];
+}
+
+/** The language's own mode, e.g. dataview: remove, or the default mode */
+function getCodeBlockMode(lang: string, ctx: RenderContext): CodeBlockMode {
+	const { settings } = ctx;
+	return (
+		settings.codeBlockLanguageModes[lang.toLowerCase()] ??
+		settings.codeBlockMode
+	);
+}
+
+/** Draw a box around code, with the language in the top border */
+function renderCodeBox(code: string, lang: string): string {
+	const lines = code.replace(/\t/g, "    ").split("\n");
+	const label = lang ? `─ ${lang} ` : "";
+	const width = Math.max(
+		getDisplayWidth(label),
+		...lines.map((line) => getDisplayWidth(line)),
+	);
+
+	const top = `┌${label}${"─".repeat(width + 2 - getDisplayWidth(label))}┐`;
+	const body = lines.map(
+		(line) => `│ ${line}${" ".repeat(width - getDisplayWidth(line))} │`,
+	);
+	const bottom = `└${"─".repeat(width + 2)}┘`;
+	return `${[top, ...body, bottom].join("\n")}\n`;
 }
 
 // =============================================================================
@@ -207,34 +919,80 @@ function renderBlockquote(
 	token: Tokens.Blockquote,
 	ctx: RenderContext,
 ): string {
-	const content = renderTokens(token.tokens, ctx);
+	if (ctx.settings.enableCallout) {
+		const callout = parseCallout(token.text);
+		if (callout) return renderCallout(callout, ctx);
+	}
 
 	if (!ctx.settings.enableBlockquote) {
-		return content;
+		return renderTokens(token.tokens, ctx);
 	}
 
 	const prefix = ctx.settings.blockquotePrefix;
+	const content = renderTokens(
+		token.tokens,
+		narrowContext(ctx, getDisplayWidth(prefix)),
+	);
 	return content
 		.split("\n")
 		.map((line) => (line ? prefix + line : line))
 		.join("\n");
 }
 
+function renderCallout(callout: Callout, ctx: RenderContext): string {
+	const icons = ctx.settings.calloutIcons;
+	const canonical = CALLOUT_ALIASES[callout.type] ?? callout.type;
+	// Unknown types fall back to "note", as in Obsidian
+	const icon = icons[callout.type] ?? icons[canonical] ?? icons.note ?? "";
+
+	const title = renderCalloutTitle(callout, ctx);
+
+	// Foldable callouts are always rendered expanded
+	const body = renderTokens(
+		markdownParser.lexer(callout.body),
+		narrowContext(ctx, 2),
+	).replace(/\n+$/, "");
+	const bodyLines = body
+		? body.split("\n").map((line) => (line ? `│ ${line}` : "│"))
+		: [];
+
+	const header = `┌─ ${[icon, title].filter(Boolean).join(" ")}`;
+	return `${[header, ...bodyLines, "└─"].join("\n")}\n`;
+}
+
 // =============================================================================
 // Token Rendering - Lists
 // =============================================================================
 
 function renderList(token: Tokens.List, ctx: RenderContext): string {
-	return token.items
-		.map((item, index) => renderListItem(item, ctx, token.ordered, index))
+	const start = token.start === "" ? 1 : token.start;
+
+	// Numbers and tree connectors only count items the task filter keeps
+	const visible = token.items.filter(
+		(item) => !isTaskHidden(item, ctx.settings),
+	);
+	const items = token.items
+		.map((item) => {
+			const index = visible.indexOf(item);
+			return renderListItem(
+				item,
+				ctx,
+				token.ordered ? start + Math.max(index, 0) : null,
+				index === visible.length - 1,
+			);
+		})
 		.join("");
+	// A list emptied by the task filter stays empty in every format
+	if (!items || !ctx.renderer.list) return items;
+	return ctx.renderer.list(items, token);
 }
 
+/** Render a list item; number is null for unordered lists */
 function renderListItem(
 	token: Tokens.ListItem,
 	ctx: RenderContext,
-	ordered: boolean,
-	index: number,
+	number: number | null,
+	isLast: boolean,
 ): string {
 	const { settings, listDepth } = ctx;
 
@@ -244,32 +1002,98 @@ function renderListItem(
 		(t) => t.type === "list",
 	) as Tokens.List[];
 
-	// Render content (filter checkbox token)
-	const filteredContent = contentTokens.filter((t) => t.type !== "checkbox");
-	const content = renderTokens(filteredContent, ctx).trim();
+	// Filtered tasks drop out, optionally keeping their children in place
+	if (isTaskHidden(token, settings)) {
+		if (settings.hideTaskChildren) return "";
+		return nestedLists.map((list) => renderList(list, ctx)).join("");
+	}
 
 	// Render nested lists with increased depth
-	const nestedCtx: RenderContext = { settings, listDepth: listDepth + 1 };
+	const nestedCtx: RenderContext = {
+		...ctx,
+		listDepth: listDepth + 1,
+		listNumbers:
+			number === null ? ctx.listNumbers : [...ctx.listNumbers, number],
+		listBranches: [...ctx.listBranches, !isLast],
+	};
 	const nested = nestedLists
 		.map((list) => renderList(list, nestedCtx))
 		.join("");
 
-	const bullet = getBullet(token, settings, ordered, index);
-	if (bullet === null) {
-		// No bullet/checkbox conversion
-		return `${content}\n${nested}`;
+	// Content is wrapped to the columns left after the indent and bullet
+	const bullet = getBullet(token, ctx, number);
+	const indent = getListIndent(ctx, isLast);
+	const marker = bullet === null ? "" : `${indent.first}${bullet} `;
+	const contentCtx = narrowContext(ctx, getDisplayWidth(marker));
+
+	// Render content (filter checkbox token and custom status marker)
+	let filteredContent = contentTokens.filter((t) => t.type !== "checkbox");
+	if (getTaskStatusSymbol(token, settings) !== null) {
+		filteredContent = stripTaskStatus(filteredContent);
+	}
+	let content = renderTokens(
+		separateBlocks(filteredContent),
+		contentCtx,
+	).trim();
+	if (ctx.renderer.listItem) {
+		const isTask = getTaskStatus(token) !== null;
+		return ctx.renderer.listItem(bullet, content, nested, isTask);
+	}
+	if (bullet !== null) {
+		// Hanging indent lines up continuation lines and blocks with the item text
+		const hanging = indent.rest + " ".repeat(getDisplayWidth(bullet) + 1);
+		content = content.replace(/\n(?=.)/g, `\n${hanging}`);
+	}
+
+	return `${marker}${content}\n${nested}`;
+}
+
+/**
+ * A tight item's text has no line break of its own, so a code block, table
+ * or callout after it gets one to start on a line of its own
+ */
+function separateBlocks(tokens: Token[]): Token[] {
+	return tokens.flatMap((token, index) => {
+		const next = tokens[index + 1];
+		return token.type === "text" && next && next.type !== "space"
+			? [token, { type: "space", raw: "" }]
+			: [token];
+	});
+}
+
+/**
+ * Indentation before a list item's bullet (first) and before its
+ * continuation lines (rest): repeated indent, or tree connectors
+ */
+function getListIndent(
+	ctx: RenderContext,
+	isLast: boolean,
+): { first: string; rest: string } {
+	const { settings, listDepth, listBranches } = ctx;
+	if (!settings.listTreeConnectors) {
+		const indent = settings.listIndent.repeat(listDepth);
+		return { first: indent, rest: indent };
 	}
+	if (listDepth === 0) return { first: "", rest: "" };
 
-	const indent = "  ".repeat(listDepth);
-	return `${indent}${bullet} ${content}\n${nested}`;
+	// Top-level items have no connector, so their branches draw no line
+	const lines = listBranches
+		.slice(1)
+		.map((hasNext) => (hasNext ? "│  " : "   "))
+		.join("");
+	return {
+		first: lines + (isLast ? "└─ " : "├─ "),
+		rest: lines + (isLast ? "   " : "│  "),
+	};
 }
 
 function getBullet(
 	token: Tokens.ListItem,
-	settings: MarkdownConversionSettings,
-	ordered: boolean,
-	index: number,
+	ctx: RenderContext,
+	number: number | null,
 ): string | null {
+	const { settings } = ctx;
+
 	// Standard checkboxes (marked recognizes [x] and [ ])
 	if (token.task) {
 		if (!settings.enableCheckbox) return null;
@@ -278,14 +1102,228 @@ function getBullet(
 			: settings.checkboxUnchecked;
 	}
 
-	// Ordered lists keep their numbers
-	if (ordered) {
-		return `${index + 1}.`;
+	// Other task statuses ([/], [-], …) from the status table
+	const status = getTaskStatusSymbol(token, settings);
+	if (status !== null) return status;
+
+	// Ordered lists keep their numbers, in the style for this depth
+	if (number !== null) {
+		return formatListNumber(number, ctx);
 	}
 
-	// Unordered lists
+	// Unordered lists cycle through the bullets by depth
 	if (!settings.enableBullet) return null;
-	return settings.bulletChar;
+	const bullets = settings.bulletChars;
+	return bullets[ctx.listDepth % bullets.length] ?? "•";
+}
+
+/** Status character of a task item ("x", " ", "/", …), or null for plain items */
+function getTaskStatus(token: Tokens.ListItem): string | null {
+	if (token.task) return token.checked ? "x" : " ";
+	return TASK_STATUS_PATTERN.exec(token.text)?.[1] ?? null;
+}
+
+/** Whether the task filter removes this item from the output */
+function isTaskHidden(
+	token: Tokens.ListItem,
+	settings: MarkdownConversionSettings,
+): boolean {
+	const status = getTaskStatus(token);
+	if (status === null) return false;
+
+	const completed = status.toLowerCase() === "x";
+	switch (settings.taskFilter) {
+		case "all":
+			return false;
+		case "hide-completed":
+			return completed;
+		case "hide-incomplete":
+			return !completed;
+		case "hide-status":
+			return settings.hiddenTaskStatuses.includes(status);
+	}
+}
+
+/** Symbol for a [/] style task status in the status table, if any */
+function getTaskStatusSymbol(
+	token: Tokens.ListItem,
+	settings: MarkdownConversionSettings,
+): string | null {
+	if (token.task || !settings.enableCheckbox) return null;
+	const status = getTaskStatus(token);
+	return status === null ? null : (settings.taskStatuses[status] ?? null);
+}
+
+/**
+ * Re-lex the first content block without its [/] status marker. Only its
+ * inline tokens change, so "[!] # text" does not turn into a heading.
+ */
+function stripTaskStatus(tokens: Token[]): Token[] {
+	const [first, ...rest] = tokens;
+	if (first?.type !== "text" && first?.type !== "paragraph") return tokens;
+
+	const text = first.text.replace(TASK_STATUS_PATTERN, "");
+	const inline = markdownParser.Lexer.lexInline(text, markdownParser.defaults);
+	return [{ ...first, text, tokens: inline }, ...rest];
+}
+
+function formatListNumber(number: number, ctx: RenderContext): string {
+	const styles = ctx.settings.orderedListStyles;
+	const style = styles[ctx.listDepth % styles.length] ?? "decimal";
+
+	switch (style) {
+		case "decimal":
+			return `${number}.`;
+		case "decimal-paren":
+			return `${number})`;
+		case "lower-alpha":
+			return `${toAlpha(number)}.`;
+		case "upper-alpha":
+			return `${toAlpha(number).toUpperCase()}.`;
+		case "lower-roman":
+			return `${toRoman(number)}.`;
+		case "upper-roman":
+			return `${toRoman(number).toUpperCase()}.`;
+		case "circled":
+			return toCircled(number);
+		case "outline": {
+			const path = [...ctx.listNumbers, number];
+			return path.length === 1 ? `${number}.` : path.join(".");
+		}
+	}
+}
+
+/** 1 → a, 26 → z, 27 → aa; numbers below 1 stay digits */
+function toAlpha(number: number): string {
+	if (number < 1) return String(number);
+	let result = "";
+	for (let n = number; n > 0; n = Math.floor((n - 1) / 26)) {
+		result = String.fromCharCode(97 + ((n - 1) % 26)) + result;
+	}
+	return result;
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+	[1000, "m"],
+	[900, "cm"],
+	[500, "d"],
+	[400, "cd"],
+	[100, "c"],
+	[90, "xc"],
+	[50, "l"],
+	[40, "xl"],
+	[10, "x"],
+	[9, "ix"],
+	[5, "v"],
+	[4, "iv"],
+	[1, "i"],
+];
+
+/** 4 → iv; numbers outside 1-3999 stay digits */
+function toRoman(number: number): string {
+	if (number < 1 || number > 3999) return String(number);
+	let result = "";
+	let n = number;
+	for (const [value, numeral] of ROMAN_NUMERALS) {
+		for (; n >= value; n -= value) result += numeral;
+	}
+	return result;
+}
+
+/** 0-50 as enclosed numbers (⓪ ① … ㊿), larger numbers in parentheses */
+function toCircled(number: number): string {
+	if (number === 0) return "⓪";
+	if (number >= 1 && number <= 20)
+		return String.fromCharCode(0x2460 + number - 1);
+	if (number >= 21 && number <= 35)
+		return String.fromCharCode(0x3251 + number - 21);
+	if (number >= 36 && number <= 50)
+		return String.fromCharCode(0x32b1 + number - 36);
+	return `(${number})`;
+}
+
+// =============================================================================
+// Token Rendering - Tables
+// =============================================================================
+
+type TableAlign = Tokens.Table["align"][number];
+
+/** Characters used to draw table borders */
+interface TableBorder {
+	top: [string, string, string];
+	middle: [string, string, string];
+	bottom: [string, string, string];
+	horizontal: string;
+	vertical: string;
+}
+
+const TABLE_BORDERS: Record<"box" | "ascii", TableBorder> = {
+	box: {
+		top: ["┌", "┬", "┐"],
+		middle: ["├", "┼", "┤"],
+		bottom: ["└", "┴", "┘"],
+		horizontal: "─",
+		vertical: "│",
+	},
+	ascii: {
+		top: ["+", "+", "+"],
+		middle: ["+", "+", "+"],
+		bottom: ["+", "+", "+"],
+		horizontal: "-",
+		vertical: "|",
+	},
+};
+
+function renderTable(token: Tokens.Table, ctx: RenderContext): string {
+	if (!ctx.settings.enableTable) {
+		return token.raw;
+	}
+
+	const renderRow = (cells: Tokens.TableCell[]) =>
+		cells.map((cell) => renderTokens(cell.tokens, ctx).trim());
+	const rows = [renderRow(token.header), ...token.rows.map(renderRow)];
+
+	if (ctx.settings.tableStyle === "tsv") {
+		return rows.map((row) => `${row.join("\t")}\n`).join("");
+	}
+
+	const widths = token.header.map((_, col) =>
+		Math.max(1, ...rows.map((row) => getDisplayWidth(row[col] ?? ""))),
+	);
+	const border = TABLE_BORDERS[ctx.settings.tableStyle];
+
+	const rule = ([left, join, right]: [string, string, string]) =>
+		`${left}${widths.map((w) => border.horizontal.repeat(w + 2)).join(join)}${right}\n`;
+	const line = (row: string[]) =>
+		`${border.vertical}${widths
+			.map((w, col) => ` ${alignCell(row[col] ?? "", w, token.align[col])} `)
+			.join(border.vertical)}${border.vertical}\n`;
+
+	const [header, ...body] = rows;
+	return [
+		rule(border.top),
+		line(header),
+		rule(border.middle),
+		...body.map(line),
+		rule(border.bottom),
+	].join("");
+}
+
+/** Pad cell text to the column width according to its alignment */
+function alignCell(text: string, width: number, align: TableAlign): string {
+	const padding = width - getDisplayWidth(text);
+	if (padding <= 0) return text;
+
+	switch (align) {
+		case "right":
+			return " ".repeat(padding) + text;
+		case "center": {
+			const left = Math.floor(padding / 2);
+			return " ".repeat(left) + text + " ".repeat(padding - left);
+		}
+		default:
+			return text + " ".repeat(padding);
+	}
 }
 
 // =============================================================================
@@ -293,63 +1331,322 @@ function getBullet(
 // =============================================================================
 
 function renderLink(token: Tokens.Link, ctx: RenderContext): string {
-	return renderTokens(token.tokens, ctx);
+	const text = renderTokens(token.tokens, ctx);
+	const url = token.href;
+
+	// Bare URLs and autolinks: the text already is the URL
+	if (isBareLink(token)) return text;
+
+	switch (ctx.settings.linkMode) {
+		case "text":
+			return text;
+		case "parentheses":
+			return `${text} (${url})`;
+		case "angle":
+			return `${text} <${url}>`;
+		case "url":
+			return url;
+		case "reference": {
+			let index = ctx.linkReferences.indexOf(url);
+			if (index < 0) {
+				index = ctx.linkReferences.push(url) - 1;
+			}
+			return `${text} [${index + 1}]`;
+		}
+	}
 }
 
-function renderImage(token: Tokens.Image): string {
-	return token.text || "";
+/** Append the numbered URL list for reference-style links */
+function appendLinkReferences(result: string, ctx: RenderContext): string {
+	if (ctx.linkReferences.length === 0) return result;
+
+	const references = ctx.linkReferences
+		.map((url, index) => `[${index + 1}] ${escapeOutput(url, ctx)}\n`)
+		.join("");
+	return `${result.replace(/\n+$/, "")}\n\n${formatBlock(references, ctx)}`;
+}
+
+function renderImage(token: Tokens.Image, ctx: RenderContext): string {
+	return formatImage(token.text, token.href, token.title ?? "", ctx);
+}
+
+/** Render an image (markdown or embed) according to the image mode */
+function formatImage(
+	alt: string,
+	src: string,
+	title: string,
+	ctx: RenderContext,
+): string {
+	// Images without alt text fall back to their file name
+	const altText =
+		alt.replace(IMAGE_SIZE_PATTERN, "").trim() || (src.split("/").pop() ?? "");
+	const variables: Record<string, string> = { alt: altText, src, title };
+
+	switch (ctx.settings.imageMode) {
+		case "alt":
+			return altText;
+		case "placeholder":
+			return ctx.settings.imagePlaceholder.replace(
+				/\{(alt|src|title)\}/g,
+				(_, key: string) => variables[key],
+			);
+		case "url":
+			return src;
+		case "remove":
+			return "";
+	}
 }
 
 // =============================================================================
-// Unicode Text Conversion
+// Token Rendering - Wikilinks & Embeds
 // =============================================================================
 
-/** Convert ASCII text to mathematical bold Unicode characters */
-function convertToBoldUnicode(text: string): string {
-	return [...text]
-		.map((char) => {
-			const code = char.codePointAt(0);
-			if (code === undefined) return char;
-			// A-Z → 𝐀-𝐙
-			if (code >= 65 && code <= 90)
-				return String.fromCodePoint(code - 65 + 0x1d400);
-			// a-z → 𝐚-𝐳
-			if (code >= 97 && code <= 122)
-				return String.fromCodePoint(code - 97 + 0x1d41a);
-			// 0-9 → 𝟎-𝟗
-			if (code >= 48 && code <= 57)
-				return String.fromCodePoint(code - 48 + 0x1d7ce);
-			return char;
-		})
-		.join("");
+function renderWikilink(token: WikilinkToken, ctx: RenderContext): string {
+	if (token.embed) {
+		return renderEmbed(token, ctx);
+	}
+
+	const noteName = token.target.split("/").pop() ?? "";
+	switch (ctx.settings.wikilinkMode) {
+		case "alias":
+			// Same display text Obsidian uses in reading view
+			return (
+				token.alias || [noteName, token.subpath].filter(Boolean).join(" > ")
+			);
+		case "note":
+			return noteName || token.subpath;
+		case "full":
+			return token.subpath ? `${token.target}#${token.subpath}` : token.target;
+		case "remove":
+			return "";
+	}
 }
 
-/** Convert ASCII text to mathematical italic Unicode characters */
-function convertToItalicUnicode(text: string): string {
-	return [...text]
-		.map((char) => {
-			const code = char.codePointAt(0);
-			if (code === undefined) return char;
-			// A-Z → 𝐴-𝑍
-			if (code >= 65 && code <= 90)
-				return String.fromCodePoint(code - 65 + 0x1d434);
-			// a-z → 𝑎-𝑧
-			if (code >= 97 && code <= 122)
-				return String.fromCodePoint(code - 97 + 0x1d44e);
-			return char;
-		})
-		.join("");
+function renderEmbed(token: WikilinkToken, ctx: RenderContext): string {
+	const { settings, options } = ctx;
+
+	const extension = token.target.split(".").pop()?.toLowerCase() ?? "";
+	if (IMAGE_EXTENSIONS.includes(extension)) {
+		return formatImage(token.alias, token.target, "", ctx);
+	}
+
+	if (settings.embedMode === "inline" && ctx.embedDepth < MAX_EMBED_DEPTH) {
+		const content = options.resolveEmbed?.(token.target, token.subpath);
+		if (content != null) {
+			const text = applyCustomRules(content, getBeforeRules(settings));
+			const tokens = markdownParser.lexer(text);
+			collectFootnotes(tokens, ctx.footnotes);
+			const embedCtx: RenderContext = {
+				...ctx,
+				listDepth: 0,
+				listNumbers: [],
+				listBranches: [],
+				embedDepth: ctx.embedDepth + 1,
+			};
+			return renderTokens(tokens, embedCtx).replace(/\n+$/, "");
+		}
+	}
+
+	// Placeholder (also the fallback when the note cannot be resolved)
+	return settings.embedPlaceholder.replace(
+		/\{name\}/g,
+		token.alias || token.target,
+	);
 }
 
-/** Add strikethrough combining character to each character */
-function convertToStrikethrough(text: string): string {
-	return [...text].map((char) => `${char}\u0336`).join("");
+// =============================================================================
+// Token Rendering - Footnotes
+// =============================================================================
+
+function collectFootnotes(tokens: Token[], footnotes: FootnoteState): void {
+	for (const token of tokens) {
+		if (token.type === "footnoteDef") {
+			const definition = token as FootnoteDefToken;
+			footnotes.definitions.set(definition.id, definition);
+		} else if (token.type === "list") {
+			collectFootnotes((token as Tokens.List).items, footnotes);
+		} else if ("tokens" in token && token.tokens) {
+			collectFootnotes(token.tokens, footnotes);
+		}
+	}
+}
+
+function renderFootnoteRef(
+	token: FootnoteRefToken,
+	ctx: RenderContext,
+): string {
+	const { settings, footnotes } = ctx;
+	const definition = footnotes.definitions.get(token.id);
+	if (!settings.enableFootnotes || !definition) {
+		return token.raw;
+	}
+
+	if (settings.footnoteStyle === "inline") {
+		const text = renderTokens(definition.tokens, ctx).trim();
+		return ` (${text.replace(/\s*\n\s*/g, " ")})`;
+	}
+
+	let number = footnotes.numbers.get(token.id);
+	if (number === undefined) {
+		number = footnotes.numbers.size + 1;
+		footnotes.numbers.set(token.id, number);
+	}
+	return formatFootnoteNumber(number, ctx);
+}
+
+/** Append the collected footnote definitions as a notes block */
+function appendFootnoteSection(result: string, ctx: RenderContext): string {
+	const { settings, footnotes } = ctx;
+	if (!settings.enableFootnotes || settings.footnoteStyle === "inline") {
+		return result;
+	}
+
+	// Definitions that are never referenced are numbered after the rest
+	for (const id of footnotes.definitions.keys()) {
+		if (!footnotes.numbers.has(id)) {
+			footnotes.numbers.set(id, footnotes.numbers.size + 1);
+		}
+	}
+	if (footnotes.numbers.size === 0) return result;
+
+	const notes = [...footnotes.numbers]
+		.sort(([, a], [, b]) => a - b)
+		.map(([id, number]) => {
+			const label = formatFootnoteNumber(number, ctx);
+			const indentWidth = getDisplayWidth(label) + 1;
+			const definition = footnotes.definitions.get(id);
+			const text = definition
+				? renderTokens(
+						definition.tokens,
+						narrowContext(ctx, indentWidth),
+					).trim()
+				: "";
+			// Hang continuation lines under the note text; blank lines stay empty
+			const indent = " ".repeat(indentWidth);
+			return `${label} ${text.replace(/\n(?=[^\n])/g, `\n${indent}`)}\n`;
+		});
+
+	const heading = settings.footnoteHeading
+		? `${escapeOutput(settings.footnoteHeading, ctx)}\n`
+		: "";
+	const section = formatBlock(`${heading}${notes.join("")}`, ctx);
+	return `${result.replace(/\n+$/, "")}\n\n${section}`;
+}
+
+function formatFootnoteNumber(number: number, ctx: RenderContext): string {
+	return ctx.settings.footnoteStyle === "superscript"
+		? convertToSuperscript(String(number))
+		: `[${number}]`;
+}
+
+// =============================================================================
+// Text Layout
+// =============================================================================
+
+/**
+ * Count visible columns: combining marks such as strikethrough take none,
+ * wide CJK characters take two
+ */
+function getDisplayWidth(text: string): number {
+	const visible = text.replace(/\p{M}/gu, "");
+	const wide = visible.match(WIDE_CHAR_PATTERN)?.length ?? 0;
+	return [...visible].length + wide;
+}
+
+/** Context for content rendered behind a prefix of the given width */
+function narrowContext(ctx: RenderContext, prefixWidth: number): RenderContext {
+	if (ctx.lineWidth === Infinity) return ctx;
+	return {
+		...ctx,
+		lineWidth: Math.max(MIN_LINE_WIDTH, ctx.lineWidth - prefixWidth),
+	};
+}
+
+/** Hard-wrap each line at spaces or between wide characters */
+function wrapText(text: string, width: number): string {
+	if (width === Infinity) return text;
+	return text
+		.split("\n")
+		.map((line) => wrapLine(line, width))
+		.join("\n");
+}
+
+function wrapLine(line: string, width: number): string {
+	if (getDisplayWidth(line) <= width) return line;
+
+	const lines: string[] = [];
+	let current = "";
+	let currentWidth = 0;
+	let space = "";
+
+	for (const unit of line.match(WRAP_UNIT_PATTERN) ?? []) {
+		if (/^\s/.test(unit)) {
+			// Leading indentation is kept; other spaces only between units
+			if (current) space = unit;
+			else current = unit;
+			currentWidth = getDisplayWidth(current);
+			continue;
+		}
+
+		const unitWidth = getDisplayWidth(unit);
+		const spaceWidth = getDisplayWidth(space);
+		if (current.trim() && currentWidth + spaceWidth + unitWidth > width) {
+			lines.push(current);
+			current = unit;
+			currentWidth = unitWidth;
+		} else {
+			current += space + unit;
+			currentWidth += spaceWidth + unitWidth;
+		}
+		space = "";
+	}
+	lines.push(current);
+	return lines.join("\n");
+}
+
+// =============================================================================
+// Unicode Text Conversion
+// =============================================================================
+
+const SUPERSCRIPTS: Record<string, string> = {
+	"0": "⁰",
+	"1": "¹",
+	"2": "²",
+	"3": "³",
+	"4": "⁴",
+	"5": "⁵",
+	"6": "⁶",
+	"7": "⁷",
+	"8": "⁸",
+	"9": "⁹",
+	"+": "⁺",
+	"-": "⁻",
+	"=": "⁼",
+	"(": "⁽",
+	")": "⁾",
+	n: "ⁿ",
+	i: "ⁱ",
+};
+
+/** Convert digits and signs to Unicode superscripts, leaving other characters */
+function convertToSuperscript(text: string): string {
+	return [...text].map((char) => SUPERSCRIPTS[char] ?? char).join("");
+}
+
+/** Add a combining character (strikethrough, underline) to each character */
+function addCombiningMark(text: string, mark: string): string {
+	return [...text].map((char) => `${char}${mark}`).join("");
 }
 
 // =============================================================================
 // Custom Rules Processing
 // =============================================================================
 
+/** Rules that run on the markdown source before conversion */
+function getBeforeRules(settings: MarkdownConversionSettings): CustomRule[] {
+	return settings.customRules.filter((r) => r.applyBeforeConversion === true);
+}
+
 /** Apply user-defined regex replacement rules */
 function applyCustomRules(text: string, rules: CustomRule[]): string {
 	let result = text;
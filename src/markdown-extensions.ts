@@ -0,0 +1,551 @@
+/**
+ * Marked tokenizer extensions for Obsidian-specific markdown syntax.
+ * Produces custom tokens that the converter renders like built-in ones.
+ */
+
+import type { Token, TokenizerExtension, Tokens } from "marked";
+
+// =============================================================================
+// Token Types
+// =============================================================================
+
+/** [[Note#Heading|alias]] link or ![[Note]] embed */
+export interface WikilinkToken extends Tokens.Generic {
+	type: "wikilink";
+	raw: string;
+	embed: boolean;
+	target: string;
+	subpath: string;
+	alias: string;
+}
+
+/** [^id] footnote reference */
+export interface FootnoteRefToken extends Tokens.Generic {
+	type: "footnoteRef";
+	raw: string;
+	id: string;
+}
+
+/** [^id]: text footnote definition */
+export interface FootnoteDefToken extends Tokens.Generic {
+	type: "footnoteDef";
+	raw: string;
+	id: string;
+	tokens: Token[];
+}
+
+/** ==highlighted== text */
+export interface HighlightToken extends Tokens.Generic {
+	type: "highlight";
+	raw: string;
+	tokens: Token[];
+}
+
+/** <u>underlined</u> text */
+export interface UnderlineToken extends Tokens.Generic {
+	type: "underline";
+	raw: string;
+	tokens: Token[];
+}
+
+/** Inline <sup> or <kbd> element whose content is rendered as markdown */
+export interface HtmlElementToken extends Tokens.Generic {
+	type: "htmlElement";
+	raw: string;
+	tag: "sup" | "kbd";
+	openTag: string;
+	tokens: Token[];
+}
+
+/** $inline$ or $$display$$ math, with the TeX source between the delimiters */
+export interface MathToken extends Tokens.Generic {
+	type: "math";
+	raw: string;
+	text: string;
+	/** A $$ block on its own lines rather than math inside a paragraph */
+	block: boolean;
+}
+
+/** #tag, which may contain / for nested tags */
+export interface TagToken extends Tokens.Generic {
+	type: "tag";
+	raw: string;
+	name: string;
+}
+
+/** ^block-id anchor at the end of a line or on its own line */
+export interface BlockIdToken extends Tokens.Generic {
+	type: "blockId";
+	raw: string;
+	id: string;
+}
+
+/** %% Obsidian comment %%, inline or spanning lines */
+export interface CommentToken extends Tokens.Generic {
+	type: "comment";
+	raw: string;
+	text: string;
+	/** A comment starting a block rather than inside a paragraph */
+	block: boolean;
+}
+
+/** Header and body of an Obsidian callout (> [!type]± Title) */
+export interface Callout {
+	type: string;
+	fold: "" | "+" | "-";
+	title: string;
+	body: string;
+}
+
+// =============================================================================
+// Callouts
+// =============================================================================
+
+/** Matches the first line of a callout inside blockquote text */
+const CALLOUT_PATTERN = /^\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)(?:\n|$)/;
+
+/**
+ * Detect callout syntax in the text of a blockquote token.
+ * Callouts are ordinary blockquotes to marked, so they are recognised at
+ * render time instead of through a tokenizer extension.
+ */
+export function parseCallout(blockquoteText: string): Callout | null {
+	const match = CALLOUT_PATTERN.exec(blockquoteText);
+	if (!match) return null;
+
+	return {
+		type: match[1].toLowerCase(),
+		fold: match[2] as Callout["fold"],
+		title: match[3].trim(),
+		body: blockquoteText.slice(match[0].length),
+	};
+}
+
+// =============================================================================
+// Links
+// =============================================================================
+
+/**
+ * Whether a link token shows its own URL: autolinks (<…>, bare URLs,
+ * www. and email addresses) and links whose text is their target.
+ * Only [text](url) and reference links have source starting with "[".
+ */
+export function isBareLink(link: Tokens.Link): boolean {
+	return (
+		!link.raw.startsWith("[") ||
+		link.text === link.href ||
+		`mailto:${link.text}` === link.href
+	);
+}
+
+// =============================================================================
+// Wikilinks & Embeds
+// =============================================================================
+
+/** Matches the bracketed part of a wikilink, with an optional embed marker */
+const WIKILINK_PATTERN = /^(!?)\[\[([^[\]\n]+?)\]\]/;
+
+/** Split the inner text of a wikilink into target, subpath and alias */
+export function parseWikilink(
+	inner: string,
+): Pick<WikilinkToken, "target" | "subpath" | "alias"> {
+	// Obsidian escapes the alias separator inside tables
+	const [link, ...aliasParts] = inner.replace(/\\\|/g, "|").split("|");
+	const [target, ...subpathParts] = link.split("#");
+	return {
+		target: target.trim(),
+		subpath: subpathParts.join("#").trim(),
+		alias: aliasParts.join("|").trim(),
+	};
+}
+
+/** Find every embed in a markdown string (used to pre-load transclusions) */
+export function findEmbeds(
+	markdown: string,
+): Pick<WikilinkToken, "target" | "subpath">[] {
+	const pattern = new RegExp(WIKILINK_PATTERN.source.slice(1), "g");
+	const embeds: Pick<WikilinkToken, "target" | "subpath">[] = [];
+
+	let match = pattern.exec(markdown);
+	while (match) {
+		if (match[1] === "!") {
+			const { target, subpath } = parseWikilink(match[2]);
+			embeds.push({ target, subpath });
+		}
+		match = pattern.exec(markdown);
+	}
+	return embeds;
+}
+
+const wikilinkExtension: TokenizerExtension = {
+	name: "wikilink",
+	level: "inline",
+	start(src) {
+		const index = src.search(/!?\[\[/);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = WIKILINK_PATTERN.exec(src);
+		if (!match) return undefined;
+
+		const token: WikilinkToken = {
+			type: "wikilink",
+			raw: match[0],
+			embed: match[1] === "!",
+			...parseWikilink(match[2]),
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Footnotes
+// =============================================================================
+
+const FOOTNOTE_DEF_PATTERN = /^\[\^([^\]\s]+)\]:[ \t]*/;
+
+/** Lines that end a footnote definition unless they are indented */
+const FOOTNOTE_INTERRUPT_PATTERN =
+	/^(?:\[\^[^\]\s]+\]:|#{1,6}\s|[-*+]\s|\d+[.)]\s|>|```|~~~)/;
+
+const footnoteDefExtension: TokenizerExtension = {
+	name: "footnoteDef",
+	level: "block",
+	start(src) {
+		const index = src.search(/^\[\^[^\]\s]+\]:/m);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = FOOTNOTE_DEF_PATTERN.exec(src);
+		if (!match) return undefined;
+
+		// Collect continuation lines: indented lines, or lazy paragraph
+		// lines directly below the definition
+		const lines = src.slice(match[0].length).split("\n");
+		const content = [lines[0]];
+		let consumed = 1;
+		let pendingBlank = 0;
+		for (const line of lines.slice(1)) {
+			const indented = /^(?: {4}|\t)/.test(line);
+			if (!line.trim()) {
+				pendingBlank++;
+				continue;
+			}
+			if (
+				!indented &&
+				(pendingBlank > 0 || FOOTNOTE_INTERRUPT_PATTERN.test(line))
+			)
+				break;
+			for (; pendingBlank > 0; pendingBlank--) content.push("");
+			content.push(line.replace(/^(?: {1,4}|\t)/, ""));
+			consumed = content.length;
+		}
+
+		// Swallow trailing blank lines so removed definitions leave no gap
+		const raw = `${match[0]}${lines.slice(0, consumed).join("\n")}`;
+		const trailing = /^\n*/.exec(src.slice(raw.length))?.[0] ?? "";
+
+		const token: FootnoteDefToken = {
+			type: "footnoteDef",
+			raw: raw + trailing,
+			id: match[1],
+			tokens: this.lexer.blockTokens(content.join("\n"), []),
+		};
+		return token;
+	},
+};
+
+const footnoteRefExtension: TokenizerExtension = {
+	name: "footnoteRef",
+	level: "inline",
+	start(src) {
+		const index = src.indexOf("[^");
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = /^\[\^([^\]\s]+)\]/.exec(src);
+		if (!match) return undefined;
+
+		const token: FootnoteRefToken = {
+			type: "footnoteRef",
+			raw: match[0],
+			id: match[1],
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Highlights & Underline
+// =============================================================================
+
+const highlightExtension: TokenizerExtension = {
+	name: "highlight",
+	level: "inline",
+	start(src) {
+		const index = src.indexOf("==");
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = /^==(?=\S)([^\n]*?\S)==(?!=)/.exec(src);
+		if (!match) return undefined;
+
+		const token: HighlightToken = {
+			type: "highlight",
+			raw: match[0],
+			tokens: this.lexer.inlineTokens(match[1]),
+		};
+		return token;
+	},
+};
+
+/** Pairs <u> tags that marked would otherwise emit as separate html tokens */
+const underlineExtension: TokenizerExtension = {
+	name: "underline",
+	level: "inline",
+	start(src) {
+		const index = src.search(/<u>/i);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = /^<u>([\s\S]+?)<\/u>/i.exec(src);
+		if (!match) return undefined;
+
+		const token: UnderlineToken = {
+			type: "underline",
+			raw: match[0],
+			tokens: this.lexer.inlineTokens(match[1]),
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Inline HTML Elements
+// =============================================================================
+
+const HTML_ELEMENT_PATTERN = /^(<(sup|kbd)(?:\s[^<>]*)?>)([\s\S]+?)<\/\2>/i;
+
+/** Pairs tags whose content is translated as a whole (superscript, keys) */
+const htmlElementExtension: TokenizerExtension = {
+	name: "htmlElement",
+	level: "inline",
+	start(src) {
+		const index = src.search(/<(?:sup|kbd)[\s>]/i);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = HTML_ELEMENT_PATTERN.exec(src);
+		if (!match) return undefined;
+
+		const token: HtmlElementToken = {
+			type: "htmlElement",
+			raw: match[0],
+			tag: match[2].toLowerCase() as HtmlElementToken["tag"],
+			openTag: match[1],
+			tokens: this.lexer.inlineTokens(match[3]),
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Math
+// =============================================================================
+
+/**
+ * $$ on its own line(s); the first closing $$ must end the line, so
+ * "$$a$$ and $$b$$" is left to the inline tokenizer
+ */
+const MATH_BLOCK_PATTERN = /^\$\$((?:(?!\$\$)[\s\S])+?)\$\$[ \t]*(?=\n|$)/;
+
+/** $$display$$ math inside a paragraph */
+const MATH_DISPLAY_INLINE_PATTERN = /^\$\$([^$]+?)\$\$/;
+
+/**
+ * $inline$ math: no space just inside the dollars and no digit after the
+ * closing one, so prices such as "$5 and $10" stay text. Backticks end the
+ * match so code spans keep their dollars. The last unit may be an escape
+ * such as \} in $\{1, 2\}$.
+ */
+const MATH_INLINE_PATTERN =
+	/^\$(?=\S)((?:\\.|[^\\$\n`])*?(?:\\.|[^\\\s$`]))\$(?!\d)/;
+
+const mathBlockExtension: TokenizerExtension = {
+	name: "math",
+	level: "block",
+	start(src) {
+		const index = src.search(/^\$\$/m);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = MATH_BLOCK_PATTERN.exec(src);
+		if (!match) return undefined;
+
+		const token: MathToken = {
+			type: "math",
+			raw: match[0],
+			text: match[1],
+			block: true,
+		};
+		return token;
+	},
+};
+
+const mathInlineExtension: TokenizerExtension = {
+	name: "math",
+	level: "inline",
+	start(src) {
+		const index = src.indexOf("$");
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match =
+			MATH_DISPLAY_INLINE_PATTERN.exec(src) ?? MATH_INLINE_PATTERN.exec(src);
+		if (!match) return undefined;
+
+		const token: MathToken = {
+			type: "math",
+			raw: match[0],
+			text: match[1],
+			block: false,
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Tags, Block IDs & Comments
+// =============================================================================
+
+/** Tag names may not be all digits (#123 is not a tag) */
+const TAG_PATTERN = /^#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/u;
+
+/** A block ID ends its line; the space or line break before it goes with it */
+const BLOCK_ID_PATTERN = /^(\n?[ \t]*)\^([a-zA-Z0-9-]+)[ \t]*(?=\n|$)/;
+
+/** Whether a token starts after whitespace or at the start of its line */
+function followsWhitespace(tokens: Token[]): boolean {
+	const previous = tokens[tokens.length - 1];
+	return !previous || /\s$/.test(previous.raw);
+}
+
+const tagExtension: TokenizerExtension = {
+	name: "tag",
+	level: "inline",
+	start(src) {
+		const match = /(^|\s)#[\p{L}\p{N}_/-]/u.exec(src);
+		return match ? match.index + match[1].length : undefined;
+	},
+	tokenizer(src, tokens) {
+		const match = TAG_PATTERN.exec(src);
+		if (!match || !followsWhitespace(tokens)) return undefined;
+
+		const token: TagToken = {
+			type: "tag",
+			raw: match[0],
+			name: match[1],
+		};
+		return token;
+	},
+};
+
+const blockIdExtension: TokenizerExtension = {
+	name: "blockId",
+	level: "inline",
+	start(src) {
+		const index = src.search(/\n?[ \t]*\^[a-zA-Z0-9-]+[ \t]*(?:\n|$)/);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src, tokens) {
+		const match = BLOCK_ID_PATTERN.exec(src);
+		if (!match || (!match[1] && !followsWhitespace(tokens))) return undefined;
+
+		const token: BlockIdToken = {
+			type: "blockId",
+			raw: match[0],
+			id: match[2],
+		};
+		return token;
+	},
+};
+
+/**
+ * %% comment %% starting a block. Like Obsidian, an unclosed comment runs to
+ * the end of the note. A block comment must close at the end of a line;
+ * otherwise the inline tokenizer takes it.
+ */
+const commentBlockExtension: TokenizerExtension = {
+	name: "comment",
+	level: "block",
+	start(src) {
+		const index = src.search(/^%%/m);
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		if (!src.startsWith("%%")) return undefined;
+
+		const close = src.indexOf("%%", 2);
+		if (close < 0) {
+			const token: CommentToken = {
+				type: "comment",
+				raw: src,
+				text: src.slice(2),
+				block: true,
+			};
+			return token;
+		}
+
+		const match = /^[ \t]*(?=\n|$)/.exec(src.slice(close + 2));
+		if (!match) return undefined;
+
+		const token: CommentToken = {
+			type: "comment",
+			raw: src.slice(0, close + 2 + match[0].length),
+			text: src.slice(2, close),
+			block: true,
+		};
+		return token;
+	},
+};
+
+const commentInlineExtension: TokenizerExtension = {
+	name: "comment",
+	level: "inline",
+	start(src) {
+		const index = src.indexOf("%%");
+		return index < 0 ? undefined : index;
+	},
+	tokenizer(src) {
+		const match = /^%%([\s\S]*?)%%/.exec(src);
+		if (!match) return undefined;
+
+		const token: CommentToken = {
+			type: "comment",
+			raw: match[0],
+			text: match[1],
+			block: false,
+		};
+		return token;
+	},
+};
+
+// =============================================================================
+// Extension List
+// =============================================================================
+
+/** All Obsidian syntax extensions, in registration order */
+export const obsidianExtensions: TokenizerExtension[] = [
+	footnoteDefExtension,
+	footnoteRefExtension,
+	wikilinkExtension,
+	highlightExtension,
+	underlineExtension,
+	htmlElementExtension,
+	mathBlockExtension,
+	mathInlineExtension,
+	commentBlockExtension,
+	commentInlineExtension,
+	tagExtension,
+	blockIdExtension,
+];
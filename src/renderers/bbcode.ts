@@ -0,0 +1,122 @@
+/**
+ * BBCode output for forums and CMSs: [b], [i], [s], [url=], [quote],
+ * [code], [list]/[*] and [img]. Only tags common to phpBB, vBulletin and
+ * similar boards are used; anything else renders as plain text.
+ */
+
+import type { Token, Tokens } from "marked";
+import {
+	type OutputRenderer,
+	type RenderContext,
+	type RenderHelpers,
+	renderCalloutTitle,
+	renderCodeBlock,
+} from "../markdown-converter";
+import { isBareLink, parseCallout } from "../markdown-extensions";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Wrap rendered children in a BBCode tag such as b or i */
+function tag(name: string) {
+	return (token: Token, ctx: RenderContext, h: RenderHelpers): string =>
+		`[${name}]${h.renderTokens((token as Tokens.Strong).tokens, ctx)}[/${name}]`;
+}
+
+function codeBlock(text: string): string {
+	return `[code]${text.replace(/\n+$/, "")}[/code]\n`;
+}
+
+// =============================================================================
+// Block Tokens
+// =============================================================================
+
+/** Boards have no portable heading size; headings become a bold line */
+function renderHeading(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	if (!ctx.settings.enableHeadings) return h.renderPlain(token, ctx);
+	const text = h.renderTokens((token as Tokens.Heading).tokens, ctx);
+	const blankAfter = ctx.settings.headingBlankLineAfter ? "\n" : "";
+	return `[b]${text}[/b]\n${blankAfter}`;
+}
+
+/** Callouts become a quote opening with their title in bold */
+function renderBlockquote(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const { text, tokens } = token as Tokens.Blockquote;
+	const callout = ctx.settings.enableCallout ? parseCallout(text) : null;
+
+	let content: string;
+	if (callout) {
+		const title = renderCalloutTitle(callout, ctx);
+		content = `[b]${title}[/b]\n${h.renderMarkdown(callout.body, ctx)}`;
+	} else {
+		content = h.renderTokens(tokens, ctx);
+	}
+	return `[quote]${content.replace(/\n+$/, "")}[/quote]\n`;
+}
+
+/** Tables are not portable BBCode; the plain text table keeps its columns */
+function renderTable(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	return codeBlock(h.renderPlainText(token, ctx));
+}
+
+// =============================================================================
+// Inline Tokens
+// =============================================================================
+
+function renderLink(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const link = token as Tokens.Link;
+	if (isBareLink(link)) {
+		return `[url]${link.href}[/url]`;
+	}
+	return `[url=${link.href}]${h.renderTokens(link.tokens, ctx)}[/url]`;
+}
+
+function renderImage(token: Token, ctx: RenderContext): string {
+	if (ctx.settings.imageMode === "remove") return "";
+	return `[img]${(token as Tokens.Image).href}[/img]`;
+}
+
+// =============================================================================
+// Renderer
+// =============================================================================
+
+export const bbcodeRenderer: OutputRenderer = {
+	/** Boards number and bullet [list] items themselves */
+	list: (items, token) =>
+		`${token.ordered ? "[list=1]" : "[list]"}\n${items}[/list]\n`,
+	/** Tasks keep their checkbox; other bullets come from the board */
+	listItem: (bullet, content, nested, isTask) =>
+		`[*]${isTask && bullet !== null ? `${bullet} ` : ""}${content}\n${nested}`,
+	tokens: {
+		heading: renderHeading,
+		blockquote: renderBlockquote,
+		table: renderTable,
+		code: renderCodeBlock((code) => codeBlock(code.text)),
+		strong: tag("b"),
+		em: tag("i"),
+		del: tag("s"),
+		underline: tag("u"),
+		// No portable highlight tag: the text is kept without decoration
+		highlight: (token, ctx, h) =>
+			h.renderTokens((token as Tokens.Generic).tokens ?? [], ctx),
+		link: renderLink,
+		image: renderImage,
+	},
+};
@@ -0,0 +1,237 @@
+/**
+ * HTML output for rich text clipboard copies. Styles are inline because
+ * pasted fragments keep no stylesheet; list bullets and numbers come from
+ * the preset, as in plain text.
+ */
+
+import type { Token, Tokens } from "marked";
+import { escapeHtml } from "../html-utils";
+import {
+	type OutputRenderer,
+	type RenderContext,
+	type RenderHelpers,
+	renderCalloutTitle,
+	renderCodeBlock,
+	renderEscaped,
+	renderEscapedText,
+	renderEscapedWikilink,
+} from "../markdown-converter";
+import {
+	type CommentToken,
+	type HtmlElementToken,
+	type MathToken,
+	parseCallout,
+} from "../markdown-extensions";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STYLES = {
+	paragraph: "margin:0 0 0.8em",
+	heading: "margin:0.8em 0 0.4em",
+	blockquote: "margin:0 0 0.8em;padding-left:0.8em;border-left:3px solid #ccc",
+	pre: "margin:0 0 0.8em;padding:0.5em;background:#f5f5f5;white-space:pre-wrap",
+	code: "font-family:monospace;background:#f5f5f5;padding:0 0.2em",
+	list: "list-style:none;margin:0 0 0.8em;padding-left:1.5em",
+	table: "border-collapse:collapse;margin:0 0 0.8em",
+	cell: "border:1px solid #ccc;padding:0.2em 0.5em",
+	hr: "border:none;border-top:1px solid #ccc",
+};
+
+/** Block-level output that must not be wrapped in <p> */
+const BLOCK_TAG_PATTERN =
+	/^<(?:h[1-6]|p|div|pre|blockquote|ul|ol|table|hr)[\s>]/;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function children(token: Token, ctx: RenderContext, h: RenderHelpers): string {
+	return h.renderTokens((token as Tokens.Generic).tokens ?? [], ctx);
+}
+
+/** Wrap rendered children in a tag unless the decoration is removed */
+function element(tag: string, isRemoved: (ctx: RenderContext) => boolean) {
+	return (token: Token, ctx: RenderContext, h: RenderHelpers): string => {
+		const text = children(token, ctx, h);
+		return isRemoved(ctx) ? text : `<${tag}>${text}</${tag}>`;
+	};
+}
+
+/** Soft line breaks are kept, as in Obsidian's reading view */
+function paragraph(content: string): string {
+	const text = content.trim();
+	if (!text) return "";
+	if (BLOCK_TAG_PATTERN.test(text)) return `${text}\n`;
+	return `<p style="${STYLES.paragraph}">${text.replace(/\n/g, "<br>")}</p>\n`;
+}
+
+// =============================================================================
+// Block Tokens
+// =============================================================================
+
+function renderHeading(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const text = children(token, ctx, h);
+	if (!ctx.settings.enableHeadings) return paragraph(text);
+	const tag = `h${(token as Tokens.Heading).depth}`;
+	return `<${tag} style="${STYLES.heading}">${text}</${tag}>\n`;
+}
+
+/** Code keeps its source */
+function preformatted(code: Tokens.Code): string {
+	const text = escapeHtml(code.text);
+	return `<pre style="${STYLES.pre}"><code>${text}</code></pre>\n`;
+}
+
+function renderBlockquote(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const { text, tokens } = token as Tokens.Blockquote;
+	const callout = ctx.settings.enableCallout ? parseCallout(text) : null;
+
+	let content: string;
+	if (callout) {
+		const title = renderCalloutTitle(callout, ctx);
+		content = `<strong>${title}</strong>\n${h.renderMarkdown(callout.body, ctx)}`;
+	} else if (ctx.settings.enableBlockquote) {
+		content = h.renderTokens(tokens, ctx);
+	} else {
+		return h.renderTokens(tokens, ctx);
+	}
+	return `<blockquote style="${STYLES.blockquote}">${content.trim()}</blockquote>\n`;
+}
+
+function renderTable(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const table = token as Tokens.Table;
+	const cell = (tag: string, cell: Tokens.TableCell, col: number) => {
+		const align = table.align[col] ? `;text-align:${table.align[col]}` : "";
+		const text = h.renderTokens(cell.tokens, ctx).trim();
+		return `<${tag} style="${STYLES.cell}${align}">${text}</${tag}>`;
+	};
+	const header = table.header.map((c, col) => cell("th", c, col)).join("");
+	const rows = table.rows
+		.map(
+			(row) => `<tr>${row.map((c, col) => cell("td", c, col)).join("")}</tr>`,
+		)
+		.join("");
+	return `<table style="${STYLES.table}"><tr>${header}</tr>${rows}</table>\n`;
+}
+
+/** Block formulas and kept block comments get a paragraph of their own */
+function renderBlockText(token: Token, ctx: RenderContext): string {
+	const text = renderEscaped(token, ctx);
+	return (token as MathToken | CommentToken).block ? paragraph(text) : text;
+}
+
+// =============================================================================
+// Inline Tokens
+// =============================================================================
+
+function renderCodespan(token: Token, ctx: RenderContext): string {
+	if (!ctx.settings.enableInlineCode) return renderEscaped(token, ctx);
+	const text = escapeHtml((token as Tokens.Codespan).text);
+	return `<code style="${STYLES.code}">${text}</code>`;
+}
+
+function renderLink(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const link = token as Tokens.Link;
+	const text = h.renderTokens(link.tokens, ctx);
+	return `<a href="${escapeHtml(link.href)}">${text}</a>`;
+}
+
+/** Only web images can be shown by the pasted HTML; others use the image mode */
+function renderImage(token: Token, ctx: RenderContext): string {
+	const image = token as Tokens.Image;
+	if (ctx.settings.imageMode === "remove") return "";
+	if (!/^https?:\/\//i.test(image.href)) return renderEscaped(token, ctx);
+	return `<img src="${escapeHtml(image.href)}" alt="${escapeHtml(image.text)}">`;
+}
+
+/** <sup> and <kbd> need no translation in HTML */
+function renderHtmlElement(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const { tag, openTag } = token as HtmlElementToken;
+	const text = children(token, ctx, h);
+	switch (ctx.settings.htmlMode) {
+		case "keep":
+			return `${openTag}${text}</${tag}>`;
+		case "strip":
+			return text;
+		case "translate":
+			return `<${tag}>${text}</${tag}>`;
+	}
+}
+
+// =============================================================================
+// Renderer
+// =============================================================================
+
+export const htmlRenderer: OutputRenderer = {
+	escape: escapeHtml,
+	reflows: true,
+	/** Blocks built outside the token stream keep their line breaks */
+	block: (text) => {
+		const content = text.trim().replace(/<\/?p(?:\s[^>]*)?>/g, "");
+		return `<div style="${STYLES.paragraph}">${content.replace(/\n/g, "<br>")}</div>\n`;
+	},
+	list: (items, token) => {
+		const tag = token.ordered ? "ol" : "ul";
+		return `<${tag} style="${STYLES.list}">${items}</${tag}>\n`;
+	},
+	listItem: (bullet, content, nested) =>
+		`<li>${bullet === null ? "" : `${escapeHtml(bullet)} `}${content}${nested}</li>`,
+	tokens: {
+		heading: renderHeading,
+		paragraph: (token, ctx, h) => paragraph(children(token, ctx, h)),
+		code: renderCodeBlock(preformatted),
+		blockquote: renderBlockquote,
+		table: renderTable,
+		hr: (_, ctx) =>
+			ctx.settings.enableHorizontalRule ? `<hr style="${STYLES.hr}">\n` : "",
+		space: () => "",
+		br: () => "<br>",
+		strong: element("strong", (ctx) => ctx.settings.boldMode === "remove"),
+		em: element("em", (ctx) => ctx.settings.italicMode === "remove"),
+		del: element("del", (ctx) => ctx.settings.strikethroughMode === "remove"),
+		highlight: element(
+			"mark",
+			(ctx) => ctx.settings.highlightMode === "remove",
+		),
+		underline: element("u", (ctx) => ctx.settings.underlineMode === "remove"),
+		codespan: renderCodespan,
+		link: renderLink,
+		image: renderImage,
+		wikilink: renderEscapedWikilink,
+		text: renderEscapedText,
+		html: (token, ctx) =>
+			ctx.settings.htmlMode === "keep"
+				? token.raw
+				: renderEscaped(token, ctx).replace(/\n/g, "<br>"),
+		htmlElement: renderHtmlElement,
+		math: renderBlockText,
+		comment: renderBlockText,
+		footnoteRef: renderEscaped,
+		footnoteDef: renderEscaped,
+		tag: renderEscaped,
+		blockId: renderEscaped,
+		escape: renderEscaped,
+	},
+};
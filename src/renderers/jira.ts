@@ -0,0 +1,156 @@
+/**
+ * Jira/Confluence wiki markup: h1. headings, *bold*, _italic_, -strike-,
+ * {code:lang} and {quote} blocks, ||header|| tables, [text|url] links and
+ * nested * / # lists. Brackets, braces, pipes and the text effect markers
+ * in literal text are escaped.
+ */
+
+import type { Token, Tokens } from "marked";
+import {
+	type OutputRenderer,
+	type RenderContext,
+	type RenderHelpers,
+	renderCalloutTitle,
+	renderCodeBlock,
+	renderEscaped,
+	renderEscapedText,
+	renderEscapedWikilink,
+} from "../markdown-converter";
+import { isBareLink, parseCallout } from "../markdown-extensions";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Characters that open links, macros, table cells and text effects */
+function escapeJira(text: string): string {
+	return text.replace(/[[\]{}|*_\-+^~!]/g, "\\$&").replace(/\?\?/g, "\\?\\?");
+}
+
+/** Wrap rendered children in a wiki markup marker such as * or _ */
+function marker(char: string) {
+	return (token: Token, ctx: RenderContext, h: RenderHelpers): string =>
+		`${char}${h.renderTokens((token as Tokens.Strong).tokens, ctx)}${char}`;
+}
+
+/** A list item must stay on one line; \\ is Jira's line break */
+function joinLines(text: string): string {
+	return text.trim().replace(/\s*\n\s*/g, " \\\\ ");
+}
+
+// =============================================================================
+// Block Tokens
+// =============================================================================
+
+function renderHeading(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	if (!ctx.settings.enableHeadings) return h.renderPlain(token, ctx);
+	const heading = token as Tokens.Heading;
+	const text = h.renderTokens(heading.tokens, ctx);
+	const blankAfter = ctx.settings.headingBlankLineAfter ? "\n" : "";
+	return `h${heading.depth}. ${text}\n${blankAfter}`;
+}
+
+/** Quotes use {quote}; callouts become a {panel} titled like the callout */
+function renderBlockquote(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const { text, tokens } = token as Tokens.Blockquote;
+	const callout = ctx.settings.enableCallout ? parseCallout(text) : null;
+
+	if (callout) {
+		const title = renderCalloutTitle(callout, ctx);
+		const body = h.renderMarkdown(callout.body, ctx).replace(/\n+$/, "");
+		return `{panel:title=${title}}\n${body}\n{panel}\n`;
+	}
+	const content = h.renderTokens(tokens, ctx).replace(/\n+$/, "");
+	return `{quote}\n${content}\n{quote}\n`;
+}
+
+function renderTable(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const table = token as Tokens.Table;
+	const row = (cells: Tokens.TableCell[], separator: string) =>
+		`${separator}${cells
+			.map((cell) => h.renderTokens(cell.tokens, ctx).trim() || " ")
+			.join(separator)}${separator}\n`;
+	return [
+		row(table.header, "||"),
+		...table.rows.map((cells) => row(cells, "|")),
+	].join("");
+}
+
+function codeMacro(code: Tokens.Code, lang: string): string {
+	const open = lang ? `{code:${lang}}` : "{code}";
+	return `${open}\n${code.text.replace(/\n+$/, "")}\n{code}\n`;
+}
+
+// =============================================================================
+// Inline Tokens
+// =============================================================================
+
+function renderLink(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const link = token as Tokens.Link;
+	if (isBareLink(link)) {
+		return `[${link.href}]`;
+	}
+	return `[${h.renderTokens(link.tokens, ctx)}|${link.href}]`;
+}
+
+function renderImage(token: Token, ctx: RenderContext): string {
+	if (ctx.settings.imageMode === "remove") return "";
+	return `!${(token as Tokens.Image).href}!`;
+}
+
+// =============================================================================
+// Renderer
+// =============================================================================
+
+export const jiraRenderer: OutputRenderer = {
+	escape: escapeJira,
+	// A line break in a paragraph or list item is a forced break in Jira
+	reflows: true,
+	/**
+	 * Each line of a list is an item; nesting prefixes the parent's marker,
+	 * so an unordered list inside a numbered one gets #*
+	 */
+	list: (items, token) => items.replace(/^(?=.)/gm, token.ordered ? "#" : "*"),
+	/** Tasks keep their checkbox; other bullets are the * and # markers */
+	listItem: (bullet, content, nested, isTask) =>
+		` ${isTask && bullet !== null ? `${bullet} ` : ""}${joinLines(content)}\n${nested}`,
+	tokens: {
+		heading: renderHeading,
+		blockquote: renderBlockquote,
+		table: renderTable,
+		code: renderCodeBlock(codeMacro),
+		hr: (_, ctx) => (ctx.settings.enableHorizontalRule ? "----\n" : ""),
+		strong: marker("*"),
+		em: marker("_"),
+		del: marker("-"),
+		underline: marker("+"),
+		// No wiki markup equivalent: the text is kept without decoration
+		highlight: (token, ctx, h) =>
+			h.renderTokens((token as Tokens.Generic).tokens ?? [], ctx),
+		codespan: (token) => `{{${escapeJira((token as Tokens.Codespan).text)}}}`,
+		link: renderLink,
+		image: renderImage,
+		wikilink: renderEscapedWikilink,
+		text: renderEscapedText,
+		escape: renderEscaped,
+		html: renderEscaped,
+		math: renderEscaped,
+		comment: renderEscaped,
+	},
+};
@@ -0,0 +1,140 @@
+/**
+ * Slack mrkdwn output: *bold*, _italic_, ~strike~, <url|text> links,
+ * > quotes and code fences, with &, < and > escaped in text.
+ */
+
+import type { Token, Tokens } from "marked";
+import {
+	type OutputRenderer,
+	type RenderContext,
+	type RenderHelpers,
+	renderCalloutTitle,
+	renderCodeBlock,
+	renderEscaped,
+	renderEscapedText,
+	renderEscapedWikilink,
+} from "../markdown-converter";
+import { isBareLink, parseCallout } from "../markdown-extensions";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Slack treats only these three characters as control characters */
+function escapeSlack(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+/** Wrap rendered children in a mrkdwn marker such as * or _ */
+function marker(char: string) {
+	return (token: Token, ctx: RenderContext, h: RenderHelpers): string =>
+		`${char}${h.renderTokens((token as Tokens.Strong).tokens, ctx)}${char}`;
+}
+
+function fence(text: string): string {
+	return `\`\`\`\n${text.replace(/\n+$/, "")}\n\`\`\`\n`;
+}
+
+// =============================================================================
+// Block Tokens
+// =============================================================================
+
+/** Slack has no headings; they become a bold line */
+function renderHeading(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	if (!ctx.settings.enableHeadings) return h.renderPlain(token, ctx);
+	const text = h.renderTokens((token as Tokens.Heading).tokens, ctx);
+	const blankAfter = ctx.settings.headingBlankLineAfter ? "\n" : "";
+	return `*${text}*\n${blankAfter}`;
+}
+
+/** Quotes and callouts become > lines; a callout's title is set in bold */
+function renderBlockquote(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const { text, tokens } = token as Tokens.Blockquote;
+	const callout = ctx.settings.enableCallout ? parseCallout(text) : null;
+
+	let content: string;
+	if (callout) {
+		const title = renderCalloutTitle(callout, ctx);
+		content = `*${title}*\n${h.renderMarkdown(callout.body, ctx)}`;
+	} else {
+		content = h.renderTokens(tokens, ctx);
+	}
+
+	const lines = content.replace(/\n+$/, "").split("\n");
+	return `${lines.map((line) => (line ? `> ${line}` : ">")).join("\n")}\n`;
+}
+
+/** Slack has no tables; the plain text table keeps its columns in a fence */
+function renderTable(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	return fence(escapeSlack(h.renderPlainText(token, ctx)));
+}
+
+// =============================================================================
+// Inline Tokens
+// =============================================================================
+
+function renderLink(
+	token: Token,
+	ctx: RenderContext,
+	h: RenderHelpers,
+): string {
+	const link = token as Tokens.Link;
+	const url = escapeSlack(link.href);
+	if (isBareLink(link)) {
+		return `<${url}>`;
+	}
+	return `<${url}|${h.renderTokens(link.tokens, ctx)}>`;
+}
+
+function renderImage(token: Token, ctx: RenderContext): string {
+	if (ctx.settings.imageMode === "remove") return "";
+	const image = token as Tokens.Image;
+	const url = escapeSlack(image.href);
+	return image.text ? `<${url}|${escapeSlack(image.text)}>` : `<${url}>`;
+}
+
+// =============================================================================
+// Renderer
+// =============================================================================
+
+export const slackRenderer: OutputRenderer = {
+	escape: escapeSlack,
+	tokens: {
+		heading: renderHeading,
+		blockquote: renderBlockquote,
+		table: renderTable,
+		code: renderCodeBlock((code) => fence(escapeSlack(code.text))),
+		strong: marker("*"),
+		em: marker("_"),
+		del: marker("~"),
+		// No mrkdwn equivalent: the text is kept without decoration
+		highlight: (token, ctx, h) =>
+			h.renderTokens((token as Tokens.Generic).tokens ?? [], ctx),
+		underline: (token, ctx, h) =>
+			h.renderTokens((token as Tokens.Generic).tokens ?? [], ctx),
+		codespan: (token) => `\`${escapeSlack((token as Tokens.Codespan).text)}\``,
+		link: renderLink,
+		image: renderImage,
+		wikilink: renderEscapedWikilink,
+		text: renderEscapedText,
+		escape: renderEscaped,
+		html: renderEscaped,
+		math: renderEscaped,
+		comment: renderEscaped,
+	},
+};
@@ -4,7 +4,27 @@
  */
 
 import { Setting, setIcon } from "obsidian";
-import type { Preset, TextDecorationMode } from "../types";
+import type {
+	CodeBlockMode,
+	EmbedMode,
+	FootnoteStyle,
+	FrontmatterMode,
+	HeadingTransform,
+	HtmlMode,
+	ImageMode,
+	LinkMode,
+	MathMode,
+	OrderedListStyle,
+	Preset,
+	TableStyle,
+	TagMode,
+	TaskFilter,
+	TextDecorationMode,
+	UnicodeStyle,
+	WikilinkMode,
+	WrapDecorationMode,
+} from "../types";
+import { applyUnicodeStyle, UNICODE_STYLES } from "../unicode-styles";
 
 // =============================================================================
 // Types
@@ -15,10 +35,45 @@ export interface SectionCallbacks {
 	refreshDisplay: () => void;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const HEADING_LEVELS = [1, 2, 3, 4, 5, 6] as const;
+
+const HEADING_PREFIX_PLACEHOLDERS: Record<number, string> = {
+	1: "▌",
+	2: "▍",
+	3: "▎",
+	4: "▏",
+	5: "",
+	6: "",
+};
+
+const UNICODE_STYLE_NAMES: Record<UnicodeStyle, string> = {
+	bold: "Bold",
+	italic: "Italic",
+	"bold-italic": "Bold italic",
+	sans: "Sans",
+	"sans-bold": "Sans bold",
+	monospace: "Monospace",
+	script: "Script",
+	"double-struck": "Double struck",
+};
+
 // =============================================================================
 // Helpers
 // =============================================================================
 
+/** Dropdown options for Unicode styles, each label rendered in its own style */
+function getUnicodeStyleOptions(): Record<UnicodeStyle, string> {
+	const options = {} as Record<UnicodeStyle, string>;
+	for (const style of UNICODE_STYLES) {
+		options[style] = applyUnicodeStyle(UNICODE_STYLE_NAMES[style], style);
+	}
+	return options;
+}
+
 function addIconToSetting(setting: Setting, iconId: string): void {
 	const nameEl = setting.settingEl.querySelector(".setting-item-name");
 	if (nameEl) {
@@ -30,6 +85,73 @@ function addIconToSetting(setting: Setting, iconId: string): void {
 	}
 }
 
+/** Show an all-space indent as its width, anything else as typed */
+function formatListIndent(indent: string): string {
+	return /^ +$/.test(indent) ? String(indent.length) : indent;
+}
+
+/** Read a width ("4") as that many spaces, anything else as the indent string */
+function parseListIndent(value: string): string {
+	return /^\d+$/.test(value.trim()) ? " ".repeat(Number(value.trim())) : value;
+}
+
+// =============================================================================
+// Frontmatter Section
+// =============================================================================
+
+export function renderFrontmatterSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const frontmatterSetting = new Setting(container)
+		.setName("Frontmatter")
+		.setHeading();
+	addIconToSetting(frontmatterSetting, "file-cog");
+
+	const modeOptions: Record<FrontmatterMode, string> = {
+		strip: "Strip",
+		keep: "Keep raw",
+		header: "All keys as key: value lines",
+		keys: "Selected keys as key: value lines",
+	};
+
+	new Setting(container)
+		.setName("Frontmatter")
+		.setDesc("How YAML frontmatter at the start of the note is rendered")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.frontmatterMode)
+				.onChange(async (value) => {
+					preset.settings.frontmatterMode = value as FrontmatterMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.frontmatterMode === "keys") {
+		new Setting(container)
+			.setName("Keys")
+			.setDesc("Keys to show, in order, separated by commas")
+			.addText((text) =>
+				text
+					.setPlaceholder("title, date")
+					.setValue(preset.settings.frontmatterKeys.join(", "))
+					.onChange(async (value) => {
+						preset.settings.frontmatterKeys = value
+							.split(",")
+							.map((key) => key.trim())
+							.filter(Boolean);
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+}
+
 // =============================================================================
 // Headings Section
 // =============================================================================
@@ -58,55 +180,62 @@ export function renderHeadingsSection(
 
 	if (!preset.settings.enableHeadings) return;
 
-	// Heading prefix settings
-	new Setting(container)
-		.setName("Heading 1 prefix")
-		.setDesc("Replacement for # heading")
-		.addText((text) =>
-			text
-				.setPlaceholder("▌")
-				.setValue(preset.settings.heading1Prefix)
-				.onChange(async (value) => {
-					preset.settings.heading1Prefix = value;
-					await callbacks.saveSettings();
-				}),
-		);
+	const transformOptions: Record<HeadingTransform, string> = {
+		none: "No transform",
+		uppercase: "UPPERCASE",
+		underline: "Underline (===/---)",
+		...getUnicodeStyleOptions(),
+	};
 
-	new Setting(container)
-		.setName("Heading 2 prefix")
-		.setDesc("Replacement for ## heading")
-		.addText((text) =>
-			text
-				.setPlaceholder("▍")
-				.setValue(preset.settings.heading2Prefix)
-				.onChange(async (value) => {
-					preset.settings.heading2Prefix = value;
-					await callbacks.saveSettings();
-				}),
-		);
+	// Heading prefix and transform settings
+	for (const level of HEADING_LEVELS) {
+		const prefixKey = `heading${level}Prefix` as const;
+		const transformKey = `heading${level}Transform` as const;
+
+		new Setting(container)
+			.setName(`Heading ${level} prefix`)
+			.setDesc(`Replacement for ${"#".repeat(level)} heading`)
+			.addText((text) =>
+				text
+					.setPlaceholder(HEADING_PREFIX_PLACEHOLDERS[level])
+					.setValue(preset.settings[prefixKey])
+					.onChange(async (value) => {
+						preset.settings[prefixKey] = value;
+						await callbacks.saveSettings();
+					}),
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(transformOptions)
+					.setValue(preset.settings[transformKey])
+					.onChange(async (value) => {
+						preset.settings[transformKey] = value as HeadingTransform;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
 
+	// Spacing around headings
 	new Setting(container)
-		.setName("Heading 3 prefix")
-		.setDesc("Replacement for ### heading")
-		.addText((text) =>
-			text
-				.setPlaceholder("▎")
-				.setValue(preset.settings.heading3Prefix)
+		.setName("Blank line before")
+		.setDesc("Ensure an empty line above each heading")
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.headingBlankLineBefore)
 				.onChange(async (value) => {
-					preset.settings.heading3Prefix = value;
+					preset.settings.headingBlankLineBefore = value;
 					await callbacks.saveSettings();
 				}),
 		);
 
 	new Setting(container)
-		.setName("Heading 4 prefix")
-		.setDesc("Replacement for #### heading")
-		.addText((text) =>
-			text
-				.setPlaceholder("▏")
-				.setValue(preset.settings.heading4Prefix)
+		.setName("Blank line after")
+		.setDesc("Add an empty line below each heading")
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.headingBlankLineAfter)
 				.onChange(async (value) => {
-					preset.settings.heading4Prefix = value;
+					preset.settings.headingBlankLineAfter = value;
 					await callbacks.saveSettings();
 				}),
 		);
@@ -138,18 +267,85 @@ export function renderListsSection(
 
 	if (preset.settings.enableBullet) {
 		new Setting(container)
-			.setDesc("Replacement for - or * list items")
+			.setDesc(
+				"Replacement for - or * list items, one per nesting level separated by spaces (e.g. • ◦ ▪)",
+			)
 			.addText((text) =>
 				text
 					.setPlaceholder("•")
-					.setValue(preset.settings.bulletChar)
+					.setValue(preset.settings.bulletChars.join(" "))
+					.onChange(async (value) => {
+						const bullets = value.split(/\s+/).filter(Boolean);
+						preset.settings.bulletChars = bullets.length ? bullets : ["•"];
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+
+	// Nesting subsection
+	new Setting(container)
+		.setName("Tree connectors")
+		.setDesc("Draw nested items with ├─ └─ │ instead of indentation")
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.listTreeConnectors)
+				.onChange(async (value) => {
+					preset.settings.listTreeConnectors = value;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (!preset.settings.listTreeConnectors) {
+		new Setting(container)
+			.setName("Indent")
+			.setDesc(
+				"Indentation per nesting level (a number means that many spaces)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("2")
+					.setValue(formatListIndent(preset.settings.listIndent))
 					.onChange(async (value) => {
-						preset.settings.bulletChar = value;
+						preset.settings.listIndent = parseListIndent(value);
 						await callbacks.saveSettings();
 					}),
 			);
 	}
 
+	// Ordered list numbering, one style per nesting level
+	const numberingOptions: Record<OrderedListStyle, string> = {
+		decimal: "1. 2. 3.",
+		"decimal-paren": "1) 2) 3)",
+		"lower-alpha": "a. b. c.",
+		"upper-alpha": "A. B. C.",
+		"lower-roman": "i. ii. iii.",
+		"upper-roman": "I. II. III.",
+		circled: "① ② ③",
+		outline: "1.1 1.2 1.3",
+	};
+
+	new Setting(container)
+		.setName("Numbered lists")
+		.setDesc("Numbering per nesting level; deeper levels repeat the cycle");
+
+	preset.settings.orderedListStyles.forEach((style, depth) => {
+		new Setting(container)
+			.setDesc(`Level ${depth + 1}`)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(numberingOptions)
+					.setValue(style)
+					.onChange(async (value) => {
+						// Copy so presets never share the default array
+						const styles = [...preset.settings.orderedListStyles];
+						styles[depth] = value as OrderedListStyle;
+						preset.settings.orderedListStyles = styles;
+						await callbacks.saveSettings();
+					}),
+			);
+	});
+
 	// Checkbox subsection
 	new Setting(container).setName("Checkbox").addToggle((toggle) =>
 		toggle.setValue(preset.settings.enableCheckbox).onChange(async (value) => {
@@ -185,7 +381,90 @@ export function renderListsSection(
 						await callbacks.saveSettings();
 					}),
 			);
+
+		new Setting(container)
+			.setName("Task statuses")
+			.setDesc(
+				"Symbol for other task statuses, one [char] symbol per line (e.g. [/] ◐)",
+			)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("[/] ◐")
+					.setValue(formatTaskStatuses(preset.settings.taskStatuses))
+					.onChange(async (value) => {
+						preset.settings.taskStatuses = parseTaskStatuses(value);
+						await callbacks.saveSettings();
+					});
+				text.inputEl.rows = 6;
+			});
+	}
+
+	// Task filter subsection
+	const filterOptions: Record<TaskFilter, string> = {
+		all: "Show all tasks",
+		"hide-completed": "Hide completed",
+		"hide-incomplete": "Hide incomplete",
+		"hide-status": "Hide by status",
+	};
+
+	new Setting(container)
+		.setName("Task filter")
+		.setDesc("Drop task items from the output")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(filterOptions)
+				.setValue(preset.settings.taskFilter)
+				.onChange(async (value) => {
+					preset.settings.taskFilter = value as TaskFilter;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.taskFilter === "hide-status") {
+		new Setting(container)
+			.setDesc("Status characters to hide, e.g. x- (a space hides [ ])")
+			.addText((text) =>
+				text
+					.setPlaceholder("x-")
+					.setValue(preset.settings.hiddenTaskStatuses)
+					.onChange(async (value) => {
+						preset.settings.hiddenTaskStatuses = value;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+
+	if (preset.settings.taskFilter !== "all") {
+		new Setting(container)
+			.setName("Hide nested items")
+			.setDesc("Remove the items nested under a hidden task")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(preset.settings.hideTaskChildren)
+					.onChange(async (value) => {
+						preset.settings.hideTaskChildren = value;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+}
+
+/** Serialize task statuses as "[char] symbol" lines for editing */
+function formatTaskStatuses(statuses: Record<string, string>): string {
+	return Object.entries(statuses)
+		.map(([status, symbol]) => `[${status}] ${symbol}`)
+		.join("\n");
+}
+
+/** Parse "[char] symbol" lines back into a task status map */
+function parseTaskStatuses(value: string): Record<string, string> {
+	const statuses: Record<string, string> = {};
+	for (const line of value.split("\n")) {
+		const match = /^\s*\[([^\]])\]\s*(.*)$/.exec(line);
+		if (match) statuses[match[1]] = match[2].trim();
 	}
+	return statuses;
 }
 
 // =============================================================================
@@ -211,6 +490,7 @@ export function renderTextDecorationSection(
 		remove: "Remove markers",
 		unicode: "Convert to Unicode",
 	};
+	const styleOptions = getUnicodeStyleOptions();
 
 	new Setting(container)
 		.setName("Bold")
@@ -222,9 +502,24 @@ export function renderTextDecorationSection(
 				.onChange(async (value) => {
 					preset.settings.boldMode = value as TextDecorationMode;
 					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
 				}),
 		);
 
+	if (preset.settings.boldMode === "unicode") {
+		new Setting(container)
+			.setDesc("Unicode style for bold text")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(styleOptions)
+					.setValue(preset.settings.boldStyle)
+					.onChange(async (value) => {
+						preset.settings.boldStyle = value as UnicodeStyle;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+
 	new Setting(container)
 		.setName("Italic")
 		.setDesc("*italic* → 𝑖𝑡𝑎𝑙𝑖𝑐 (Unicode only works with ASCII)")
@@ -235,9 +530,24 @@ export function renderTextDecorationSection(
 				.onChange(async (value) => {
 					preset.settings.italicMode = value as TextDecorationMode;
 					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
 				}),
 		);
 
+	if (preset.settings.italicMode === "unicode") {
+		new Setting(container)
+			.setDesc("Unicode style for italic text")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(styleOptions)
+					.setValue(preset.settings.italicStyle)
+					.onChange(async (value) => {
+						preset.settings.italicStyle = value as UnicodeStyle;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+
 	new Setting(container)
 		.setName("Strikethrough")
 		.setDesc("~~text~~ → t̶e̶x̶t̶")
@@ -250,6 +560,68 @@ export function renderTextDecorationSection(
 					await callbacks.saveSettings();
 				}),
 		);
+
+	// Highlight and underline can also be wrapped in custom characters
+	const wrapModeOptions: Record<WrapDecorationMode, string> = {
+		...modeOptions,
+		wrap: "Wrap with characters",
+	};
+
+	new Setting(container)
+		.setName("Highlight")
+		.setDesc("==text== → t̳e̳x̳t̳ or 【text】")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(wrapModeOptions)
+				.setValue(preset.settings.highlightMode)
+				.onChange(async (value) => {
+					preset.settings.highlightMode = value as WrapDecorationMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.highlightMode === "wrap") {
+		new Setting(container)
+			.setDesc("Wrapper pair: first half before, second half after")
+			.addText((text) =>
+				text
+					.setPlaceholder("【】")
+					.setValue(preset.settings.highlightWrapper)
+					.onChange(async (value) => {
+						preset.settings.highlightWrapper = value;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+
+	new Setting(container)
+		.setName("Underline")
+		.setDesc("<u>text</u> → t̲e̲x̲t̲ or _text_")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(wrapModeOptions)
+				.setValue(preset.settings.underlineMode)
+				.onChange(async (value) => {
+					preset.settings.underlineMode = value as WrapDecorationMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.underlineMode === "wrap") {
+		new Setting(container)
+			.setDesc("Wrapper pair: first half before, second half after")
+			.addText((text) =>
+				text
+					.setPlaceholder("_")
+					.setValue(preset.settings.underlineWrapper)
+					.onChange(async (value) => {
+						preset.settings.underlineWrapper = value;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
 }
 
 // =============================================================================
@@ -318,62 +690,414 @@ export function renderBlockElementsSection(
 					}),
 			);
 	}
-}
-
-// =============================================================================
-// Code Section
-// =============================================================================
-
-export function renderCodeSection(
-	containerEl: HTMLElement,
-	preset: Preset,
-	callbacks: SectionCallbacks,
-): void {
-	const container = containerEl.createDiv();
-
-	// Section header
-	const codeSetting = new Setting(container).setName("Code").setHeading();
-	addIconToSetting(codeSetting, "code");
 
-	// Code block subsection
-	new Setting(container).setName("Code block").addToggle((toggle) =>
-		toggle.setValue(preset.settings.enableCodeBlock).onChange(async (value) => {
-			preset.settings.enableCodeBlock = value;
+	// Callout subsection
+	new Setting(container).setName("Callout").addToggle((toggle) =>
+		toggle.setValue(preset.settings.enableCallout).onChange(async (value) => {
+			preset.settings.enableCallout = value;
 			await callbacks.saveSettings();
 			callbacks.refreshDisplay();
 		}),
 	);
 
-	if (preset.settings.enableCodeBlock) {
+	if (preset.settings.enableCallout) {
 		new Setting(container)
-			.setDesc("Prefix for each line in code blocks")
-			.addText((text) =>
+			.setDesc(
+				"Icon for each > [!type] callout, one type: icon per line (unknown types use note)",
+			)
+			.addTextArea((text) => {
 				text
-					.setPlaceholder("  ")
-					.setValue(preset.settings.codeBlockPrefix)
+					.setPlaceholder("warning: ⚠️")
+					.setValue(formatCalloutIcons(preset.settings.calloutIcons))
 					.onChange(async (value) => {
-						preset.settings.codeBlockPrefix = value;
+						preset.settings.calloutIcons = parseCalloutIcons(value);
 						await callbacks.saveSettings();
-					}),
-			);
+					});
+				text.inputEl.rows = 6;
+			});
 	}
+}
 
-	// Inline code subsection
-	new Setting(container).setName("Inline code").addToggle((toggle) =>
-		toggle
-			.setValue(preset.settings.enableInlineCode)
-			.onChange(async (value) => {
-				preset.settings.enableInlineCode = value;
+/** Serialize callout icons as "type: icon" lines for editing */
+function formatCalloutIcons(icons: Record<string, string>): string {
+	return Object.entries(icons)
+		.map(([type, icon]) => `${type}: ${icon}`)
+		.join("\n");
+}
+
+/** Parse "type: icon" lines back into a callout icon map */
+function parseCalloutIcons(value: string): Record<string, string> {
+	const icons: Record<string, string> = {};
+	for (const line of value.split("\n")) {
+		const separator = line.indexOf(":");
+		if (separator < 0) continue;
+		const type = line.slice(0, separator).trim().toLowerCase();
+		if (type) icons[type] = line.slice(separator + 1).trim();
+	}
+	return icons;
+}
+
+// =============================================================================
+// Tables Section
+// =============================================================================
+
+export function renderTablesSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header with toggle
+	const tableSetting = new Setting(container)
+		.setName("Tables")
+		.setHeading()
+		.addToggle((toggle) =>
+			toggle.setValue(preset.settings.enableTable).onChange(async (value) => {
+				preset.settings.enableTable = value;
 				await callbacks.saveSettings();
 				callbacks.refreshDisplay();
 			}),
-	);
+		);
+	addIconToSetting(tableSetting, "table");
 
-	if (preset.settings.enableInlineCode) {
-		new Setting(container)
-			.setDesc("Wrapper for `inline code`")
-			.addText((text) =>
-				text
+	if (!preset.settings.enableTable) return;
+
+	const styleOptions: Record<TableStyle, string> = {
+		box: "Box drawing (┌─┬─┐)",
+		ascii: "ASCII (+---+)",
+		tsv: "Tab-separated",
+	};
+
+	new Setting(container)
+		.setName("Table style")
+		.setDesc("Columns are aligned according to the :--- / :---: / ---: markers")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(styleOptions)
+				.setValue(preset.settings.tableStyle)
+				.onChange(async (value) => {
+					preset.settings.tableStyle = value as TableStyle;
+					await callbacks.saveSettings();
+				}),
+		);
+}
+
+// =============================================================================
+// Links Section
+// =============================================================================
+
+export function renderLinksSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const linkSetting = new Setting(container).setName("Links").setHeading();
+	addIconToSetting(linkSetting, "link");
+
+	const linkOptions: Record<LinkMode, string> = {
+		text: "Text only",
+		parentheses: "Text (URL)",
+		angle: "Text <URL>",
+		url: "URL only",
+		reference: "Numbered references at the end",
+	};
+
+	new Setting(container)
+		.setName("Links")
+		.setDesc("[text](url) → text / text (url) / text <url> / url / text [1]")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(linkOptions)
+				.setValue(preset.settings.linkMode)
+				.onChange(async (value) => {
+					preset.settings.linkMode = value as LinkMode;
+					await callbacks.saveSettings();
+				}),
+		);
+
+	const wikilinkOptions: Record<WikilinkMode, string> = {
+		alias: "Alias (or note name)",
+		note: "Note name",
+		full: "Full link (Note#Heading)",
+		remove: "Remove",
+	};
+
+	new Setting(container)
+		.setName("Wikilinks")
+		.setDesc("[[Note#Heading|alias]] → alias / Note / Note#Heading")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(wikilinkOptions)
+				.setValue(preset.settings.wikilinkMode)
+				.onChange(async (value) => {
+					preset.settings.wikilinkMode = value as WikilinkMode;
+					await callbacks.saveSettings();
+				}),
+		);
+
+	const embedOptions: Record<EmbedMode, string> = {
+		inline: "Inline note content",
+		placeholder: "Placeholder",
+	};
+
+	new Setting(container)
+		.setName("Embeds")
+		.setDesc("![[Note]] → converted note content or a placeholder")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(embedOptions)
+				.setValue(preset.settings.embedMode)
+				.onChange(async (value) => {
+					preset.settings.embedMode = value as EmbedMode;
+					await callbacks.saveSettings();
+				}),
+		);
+
+	new Setting(container)
+		.setName("Embed placeholder")
+		.setDesc(
+			"Used when content is not inlined or cannot be found ({name} = alias or note name)",
+		)
+		.addText((text) =>
+			text
+				.setPlaceholder("[Embed: {name}]")
+				.setValue(preset.settings.embedPlaceholder)
+				.onChange(async (value) => {
+					preset.settings.embedPlaceholder = value;
+					await callbacks.saveSettings();
+				}),
+		);
+}
+
+// =============================================================================
+// Images Section
+// =============================================================================
+
+export function renderImagesSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const imageSetting = new Setting(container).setName("Images").setHeading();
+	addIconToSetting(imageSetting, "image");
+
+	const modeOptions: Record<ImageMode, string> = {
+		alt: "Alt text",
+		placeholder: "Placeholder",
+		url: "URL",
+		remove: "Remove",
+	};
+
+	new Setting(container)
+		.setName("Render as")
+		.setDesc("![alt](src) and ![[image.png|300]] embeds")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.imageMode)
+				.onChange(async (value) => {
+					preset.settings.imageMode = value as ImageMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.imageMode === "placeholder") {
+		new Setting(container)
+			.setName("Placeholder")
+			.setDesc("Variables: {alt} (file name if empty), {src}, {title}")
+			.addText((text) =>
+				text
+					.setPlaceholder("[Image: {alt}]")
+					.setValue(preset.settings.imagePlaceholder)
+					.onChange(async (value) => {
+						preset.settings.imagePlaceholder = value;
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+}
+
+// =============================================================================
+// Footnotes Section
+// =============================================================================
+
+export function renderFootnotesSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header with toggle
+	const footnoteSetting = new Setting(container)
+		.setName("Footnotes")
+		.setHeading()
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.enableFootnotes)
+				.onChange(async (value) => {
+					preset.settings.enableFootnotes = value;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+	addIconToSetting(footnoteSetting, "superscript");
+
+	if (!preset.settings.enableFootnotes) return;
+
+	const styleOptions: Record<FootnoteStyle, string> = {
+		superscript: "Superscript (¹²³)",
+		bracket: "Brackets ([1])",
+		inline: "Inline in parentheses",
+	};
+
+	new Setting(container)
+		.setName("Reference style")
+		.setDesc("[^1] references are renumbered in order of appearance")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(styleOptions)
+				.setValue(preset.settings.footnoteStyle)
+				.onChange(async (value) => {
+					preset.settings.footnoteStyle = value as FootnoteStyle;
+					await callbacks.saveSettings();
+				}),
+		);
+
+	new Setting(container)
+		.setName("Notes heading")
+		.setDesc("Heading above the notes block at the end (empty for none)")
+		.addText((text) =>
+			text
+				.setPlaceholder("Notes")
+				.setValue(preset.settings.footnoteHeading)
+				.onChange(async (value) => {
+					preset.settings.footnoteHeading = value;
+					await callbacks.saveSettings();
+				}),
+		);
+}
+
+// =============================================================================
+// Code Section
+// =============================================================================
+
+export function renderCodeSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const codeSetting = new Setting(container).setName("Code").setHeading();
+	addIconToSetting(codeSetting, "code");
+
+	// Code block subsection
+	new Setting(container).setName("Code block").addToggle((toggle) =>
+		toggle.setValue(preset.settings.enableCodeBlock).onChange(async (value) => {
+			preset.settings.enableCodeBlock = value;
+			await callbacks.saveSettings();
+			callbacks.refreshDisplay();
+		}),
+	);
+
+	if (preset.settings.enableCodeBlock) {
+		const modeOptions: Record<CodeBlockMode, string> = {
+			prefix: "Prefix each line",
+			fenced: "Keep ``` fence with language",
+			boxed: "Draw a box",
+			header: "Language header line",
+			placeholder: "Replace with placeholder",
+			remove: "Remove",
+		};
+
+		new Setting(container).setName("Render as").addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.codeBlockMode)
+				.onChange(async (value) => {
+					preset.settings.codeBlockMode = value as CodeBlockMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+		const mode = preset.settings.codeBlockMode;
+		if (mode === "prefix" || mode === "header") {
+			new Setting(container)
+				.setDesc("Prefix for each line in code blocks")
+				.addText((text) =>
+					text
+						.setPlaceholder("  ")
+						.setValue(preset.settings.codeBlockPrefix)
+						.onChange(async (value) => {
+							preset.settings.codeBlockPrefix = value;
+							await callbacks.saveSettings();
+						}),
+				);
+		}
+
+		if (mode === "placeholder") {
+			new Setting(container)
+				.setDesc("Placeholder text; {lang} is the block language")
+				.addText((text) =>
+					text
+						.setPlaceholder("[{lang} block]")
+						.setValue(preset.settings.codeBlockPlaceholder)
+						.onChange(async (value) => {
+							preset.settings.codeBlockPlaceholder = value;
+							await callbacks.saveSettings();
+						}),
+				);
+		}
+
+		new Setting(container)
+			.setName("Per-language modes")
+			.setDesc(
+				`One language: mode per line, overriding the mode above (modes: ${Object.keys(modeOptions).join(", ")})`,
+			)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("dataview: remove\nmermaid: placeholder")
+					.setValue(
+						formatCodeBlockLanguageModes(
+							preset.settings.codeBlockLanguageModes,
+						),
+					)
+					.onChange(async (value) => {
+						preset.settings.codeBlockLanguageModes =
+							parseCodeBlockLanguageModes(value, modeOptions);
+						await callbacks.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+	}
+
+	// Inline code subsection
+	new Setting(container).setName("Inline code").addToggle((toggle) =>
+		toggle
+			.setValue(preset.settings.enableInlineCode)
+			.onChange(async (value) => {
+				preset.settings.enableInlineCode = value;
+				await callbacks.saveSettings();
+				callbacks.refreshDisplay();
+			}),
+	);
+
+	if (preset.settings.enableInlineCode) {
+		new Setting(container)
+			.setDesc("Wrapper for `inline code`")
+			.addText((text) =>
+				text
 					.setPlaceholder("`")
 					.setValue(preset.settings.inlineCodeWrapper)
 					.onChange(async (value) => {
@@ -381,5 +1105,236 @@ export function renderCodeSection(
 						await callbacks.saveSettings();
 					}),
 			);
+
+		new Setting(container)
+			.setDesc("Unicode style for inline code text")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ none: "No style", ...getUnicodeStyleOptions() })
+					.setValue(preset.settings.inlineCodeStyle)
+					.onChange(async (value) => {
+						preset.settings.inlineCodeStyle = value as UnicodeStyle | "none";
+						await callbacks.saveSettings();
+					}),
+			);
+	}
+}
+
+/** Serialize per-language code block modes as "language: mode" lines */
+function formatCodeBlockLanguageModes(
+	modes: Record<string, CodeBlockMode>,
+): string {
+	return Object.entries(modes)
+		.map(([lang, mode]) => `${lang}: ${mode}`)
+		.join("\n");
+}
+
+/** Parse "language: mode" lines, skipping unknown modes */
+function parseCodeBlockLanguageModes(
+	value: string,
+	modeOptions: Record<CodeBlockMode, string>,
+): Record<string, CodeBlockMode> {
+	const modes: Record<string, CodeBlockMode> = {};
+	for (const line of value.split("\n")) {
+		const [lang, mode] = line.split(":").map((part) => part.trim());
+		if (lang && mode && mode in modeOptions) {
+			modes[lang.toLowerCase()] = mode as CodeBlockMode;
+		}
+	}
+	return modes;
+}
+
+// =============================================================================
+// HTML Section
+// =============================================================================
+
+export function renderHtmlSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const htmlSetting = new Setting(container).setName("HTML").setHeading();
+	addIconToSetting(htmlSetting, "file-code");
+
+	const modeOptions: Record<HtmlMode, string> = {
+		keep: "Keep raw HTML",
+		strip: "Strip tags, keep text",
+		translate: "Translate common tags",
+	};
+
+	new Setting(container)
+		.setName("HTML tags")
+		.setDesc(
+			"Translate: <br> → newline, <sup>2</sup> → ², <details> → summary and body",
+		)
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.htmlMode)
+				.onChange(async (value) => {
+					preset.settings.htmlMode = value as HtmlMode;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+
+	if (preset.settings.htmlMode === "translate") {
+		new Setting(container)
+			.setName("Keyboard keys")
+			.setDesc(
+				"Wrapper pair for <kbd>Ctrl</kbd> (first half before, second half after)",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("[]")
+					.setValue(preset.settings.kbdWrapper)
+					.onChange(async (value) => {
+						preset.settings.kbdWrapper = value;
+						await callbacks.saveSettings();
+					}),
+			);
 	}
 }
+
+// =============================================================================
+// Math Section
+// =============================================================================
+
+export function renderMathSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const mathSetting = new Setting(container).setName("Math").setHeading();
+	addIconToSetting(mathSetting, "sigma");
+
+	const modeOptions: Record<MathMode, string> = {
+		unicode: "Convert to Unicode",
+		keep: "Keep raw",
+		strip: "Strip delimiters",
+	};
+
+	new Setting(container)
+		.setName("Formulas")
+		.setDesc("Unicode: $\\alpha^2 \\leq \\frac{1}{2}$ → α² ≤ ½")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.mathMode)
+				.onChange(async (value) => {
+					preset.settings.mathMode = value as MathMode;
+					await callbacks.saveSettings();
+				}),
+		);
+}
+
+// =============================================================================
+// Tags & Comments Section
+// =============================================================================
+
+export function renderTagsSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header
+	const tagsSetting = new Setting(container)
+		.setName("Tags & Comments")
+		.setHeading();
+	addIconToSetting(tagsSetting, "hash");
+
+	const modeOptions: Record<TagMode, string> = {
+		keep: "Keep",
+		"remove-hash": "Remove # only",
+		remove: "Remove",
+	};
+
+	new Setting(container)
+		.setName("Tags")
+		.setDesc("How #tags and #nested/tags are rendered")
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions(modeOptions)
+				.setValue(preset.settings.tagMode)
+				.onChange(async (value) => {
+					preset.settings.tagMode = value as TagMode;
+					await callbacks.saveSettings();
+				}),
+		);
+
+	new Setting(container)
+		.setName("Strip block IDs")
+		.setDesc("Remove ^block-id anchors at the end of lines")
+		.addToggle((toggle) =>
+			toggle.setValue(preset.settings.stripBlockIds).onChange(async (value) => {
+				preset.settings.stripBlockIds = value;
+				await callbacks.saveSettings();
+			}),
+		);
+
+	new Setting(container)
+		.setName("Remove comments")
+		.setDesc("Remove %% comments %%, inline or spanning several lines")
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.removeComments)
+				.onChange(async (value) => {
+					preset.settings.removeComments = value;
+					await callbacks.saveSettings();
+				}),
+		);
+}
+
+// =============================================================================
+// Line Wrapping Section
+// =============================================================================
+
+export function renderLineWrapSection(
+	containerEl: HTMLElement,
+	preset: Preset,
+	callbacks: SectionCallbacks,
+): void {
+	const container = containerEl.createDiv();
+
+	// Section header with toggle
+	const wrapSetting = new Setting(container)
+		.setName("Line Wrapping")
+		.setHeading()
+		.addToggle((toggle) =>
+			toggle
+				.setValue(preset.settings.enableLineWrap)
+				.onChange(async (value) => {
+					preset.settings.enableLineWrap = value;
+					await callbacks.saveSettings();
+					callbacks.refreshDisplay();
+				}),
+		);
+	addIconToSetting(wrapSetting, "wrap-text");
+
+	if (!preset.settings.enableLineWrap) return;
+
+	new Setting(container)
+		.setName("Line width")
+		.setDesc(
+			"Wrap paragraphs, list items and quotes at this many columns (wide CJK characters count as two)",
+		)
+		.addText((text) =>
+			text
+				.setPlaceholder("72")
+				.setValue(String(preset.settings.lineWrapWidth))
+				.onChange(async (value) => {
+					const width = Number.parseInt(value, 10);
+					if (!Number.isFinite(width) || width <= 0) return;
+					preset.settings.lineWrapWidth = width;
+					await callbacks.saveSettings();
+				}),
+		);
+}
@@ -7,8 +7,17 @@ import type { CustomRule, Preset } from "../types";
 import {
 	renderBlockElementsSection,
 	renderCodeSection,
+	renderFootnotesSection,
+	renderFrontmatterSection,
 	renderHeadingsSection,
+	renderHtmlSection,
+	renderImagesSection,
+	renderLineWrapSection,
+	renderLinksSection,
 	renderListsSection,
+	renderMathSection,
+	renderTablesSection,
+	renderTagsSection,
 	renderTextDecorationSection,
 	type SectionCallbacks,
 } from "./markdown";
@@ -204,11 +213,20 @@ export class MarkdownSettingsModal extends Modal {
 			refreshDisplay: () => this.refreshContent(),
 		};
 
+		renderFrontmatterSection(contentEl, this.preset, sectionCallbacks);
 		renderHeadingsSection(contentEl, this.preset, sectionCallbacks);
 		renderListsSection(contentEl, this.preset, sectionCallbacks);
 		renderBlockElementsSection(contentEl, this.preset, sectionCallbacks);
+		renderTablesSection(contentEl, this.preset, sectionCallbacks);
+		renderLinksSection(contentEl, this.preset, sectionCallbacks);
+		renderImagesSection(contentEl, this.preset, sectionCallbacks);
+		renderFootnotesSection(contentEl, this.preset, sectionCallbacks);
 		renderCodeSection(contentEl, this.preset, sectionCallbacks);
+		renderHtmlSection(contentEl, this.preset, sectionCallbacks);
+		renderMathSection(contentEl, this.preset, sectionCallbacks);
+		renderTagsSection(contentEl, this.preset, sectionCallbacks);
 		renderTextDecorationSection(contentEl, this.preset, sectionCallbacks);
+		renderLineWrapSection(contentEl, this.preset, sectionCallbacks);
 	}
 
 	private refreshContent() {
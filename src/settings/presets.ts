@@ -7,6 +7,7 @@ import { type App, Modal, Setting, setIcon } from "obsidian";
 import {
 	DEFAULT_SETTINGS,
 	generatePresetId,
+	type OutputFormat,
 	type PluginSettings,
 	type Preset,
 } from "../types";
@@ -24,6 +25,17 @@ export interface PresetCallbacks {
 	refreshDisplay: () => void;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const OUTPUT_FORMAT_OPTIONS: Record<OutputFormat, string> = {
+	plain: "Plain text (Unicode)",
+	slack: "Slack mrkdwn",
+	bbcode: "BBCode (forums)",
+	jira: "Jira wiki markup",
+};
+
 // =============================================================================
 // Preset List View
 // =============================================================================
@@ -47,6 +59,9 @@ export function renderPresetList(
 				id: generatePresetId(),
 				name: "New Preset",
 				settings: { ...DEFAULT_SETTINGS },
+				headerTemplate: "",
+				footerTemplate: "",
+				richTextCopy: false,
 			};
 			callbacks.getSettings().presets.push(newPreset);
 			await callbacks.saveSettings();
@@ -243,6 +258,9 @@ function renderPresetControls(
 						id: generatePresetId(),
 						name: `${preset.name} (copy)`,
 						settings: JSON.parse(JSON.stringify(preset.settings)),
+						headerTemplate: preset.headerTemplate,
+						footerTemplate: preset.footerTemplate,
+						richTextCopy: preset.richTextCopy,
 					};
 					callbacks.getSettings().presets.splice(index + 1, 0, duplicate);
 					await callbacks.saveSettings();
@@ -311,6 +329,75 @@ class PresetEditorModal extends Modal {
 				}),
 			);
 
+		// Header and footer templates
+		new Setting(contentEl)
+			.setName("Header template")
+			.setDesc(
+				"Added above the output. Variables: {{title}}, {{date:YYYY-MM-DD}}, {{path}}, {{preset}}, {{wordCount}} and frontmatter fields such as {{author}}. Built-in names take priority; use {{fm.title}} for a frontmatter field with the same name",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("{{title}} ({{date}})")
+					.setValue(this.preset.headerTemplate)
+					.onChange(async (value) => {
+						this.preset.headerTemplate = value;
+						await this.callbacks.saveSettings();
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName("Footer template")
+			.setDesc("Added below the output, with the same variables")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Source: {{path}}")
+					.setValue(this.preset.footerTemplate)
+					.onChange(async (value) => {
+						this.preset.footerTemplate = value;
+						await this.callbacks.saveSettings();
+					}),
+			);
+
+		// Output format
+		new Setting(contentEl)
+			.setName("Output format")
+			.setDesc("Markup the converted text is written in")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(OUTPUT_FORMAT_OPTIONS)
+					.setValue(this.preset.settings.outputFormat)
+					.onChange(async (value) => {
+						this.preset.settings.outputFormat = value as OutputFormat;
+						await this.callbacks.saveSettings();
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName("ASCII-safe output")
+			.setDesc(
+				"Replace styled letters, box drawing, checkboxes, bullets, math symbols and smart quotes with ASCII, for mail clients without Unicode fonts",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.preset.settings.asciiSafe)
+					.onChange(async (value) => {
+						this.preset.settings.asciiSafe = value;
+						await this.callbacks.saveSettings();
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName("Copy as rich text")
+			.setDesc(
+				"The copy command also writes formatted HTML, for apps that paste formatting. The plain text output stays the fallback",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.preset.richTextCopy).onChange(async (value) => {
+					this.preset.richTextCopy = value;
+					await this.callbacks.saveSettings();
+				}),
+			);
+
 		// Markdown settings with toggle and configure button
 		new Setting(contentEl)
 			.setName("Markdown Conversion")
@@ -0,0 +1,73 @@
+/**
+ * Header and footer templates placed around converted text.
+ * Variables use {{name}} syntax; {{date:FORMAT}} takes a moment.js format.
+ */
+
+import { moment } from "obsidian";
+import { escapeHtml } from "./html-utils";
+import type { Preset } from "./types";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** {{name}} or {{name:argument}} */
+const VARIABLE_PATTERN = /\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g;
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Number of whitespace-separated words */
+export function countWords(text: string): number {
+	return text.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * Replace {{variables}} in a template. {{date}} is the current date;
+ * other names are looked up in `variables` and render empty when missing.
+ */
+export function renderTemplate(
+	template: string,
+	variables: Record<string, string>,
+): string {
+	return template.replace(
+		VARIABLE_PATTERN,
+		(_, name: string, argument: string | undefined) => {
+			if (name === "date") {
+				return moment().format(argument?.trim() || DEFAULT_DATE_FORMAT);
+			}
+			return variables[name] ?? "";
+		},
+	);
+}
+
+/** Put the preset's header and footer around converted text, blank-line separated */
+export function applyTemplates(
+	text: string,
+	preset: Preset,
+	variables: Record<string, string>,
+): string {
+	const header = renderTemplate(preset.headerTemplate, variables).trim();
+	const footer = renderTemplate(preset.footerTemplate, variables).trim();
+
+	let result = text;
+	if (header) result = `${header}\n\n${result}`;
+	if (footer) result = `${result.replace(/\s+$/, "")}\n\n${footer}\n`;
+	return result;
+}
+
+/** HTML counterpart of applyTemplates: header and footer become escaped paragraphs */
+export function applyHtmlTemplates(
+	html: string,
+	preset: Preset,
+	variables: Record<string, string>,
+): string {
+	const paragraph = (template: string) => {
+		const text = renderTemplate(template, variables).trim();
+		return text ? `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>\n` : "";
+	};
+	return `${paragraph(preset.headerTemplate)}${html}${paragraph(preset.footerTemplate)}`;
+}
@@ -3,6 +3,13 @@
  * These types are shared across the markdown converter and settings UI.
  */
 
+// =============================================================================
+// Output Format
+// =============================================================================
+
+/** Target markup for the converted text */
+export type OutputFormat = "plain" | "slack" | "bbcode" | "jira";
+
 // =============================================================================
 // Text Decoration Mode
 // =============================================================================
@@ -10,6 +17,136 @@
 /** Mode for text decoration conversion */
 export type TextDecorationMode = "keep" | "remove" | "unicode";
 
+/** Text decoration mode that can also surround text with wrapper characters */
+export type WrapDecorationMode = TextDecorationMode | "wrap";
+
+/** Mathematical Alphanumeric Symbols style used for Unicode conversion */
+export type UnicodeStyle =
+	| "bold"
+	| "italic"
+	| "bold-italic"
+	| "sans"
+	| "sans-bold"
+	| "monospace"
+	| "script"
+	| "double-struck";
+
+// =============================================================================
+// Heading Transform
+// =============================================================================
+
+/** Text transform applied to heading text after the prefix */
+export type HeadingTransform =
+	| "none"
+	| "uppercase"
+	| "underline"
+	| UnicodeStyle;
+
+// =============================================================================
+// Ordered List Style
+// =============================================================================
+
+/** Numbering scheme for ordered list items: 1. 1) a. A. i. I. ① or 1.2.3 */
+export type OrderedListStyle =
+	| "decimal"
+	| "decimal-paren"
+	| "lower-alpha"
+	| "upper-alpha"
+	| "lower-roman"
+	| "upper-roman"
+	| "circled"
+	| "outline";
+
+// =============================================================================
+// Task Filter
+// =============================================================================
+
+/** Which task list items are dropped from the output */
+export type TaskFilter =
+	| "all"
+	| "hide-completed"
+	| "hide-incomplete"
+	| "hide-status";
+
+// =============================================================================
+// Table Style
+// =============================================================================
+
+/** Output style for GFM tables */
+export type TableStyle = "box" | "ascii" | "tsv";
+
+// =============================================================================
+// Footnote Style
+// =============================================================================
+
+/** How footnote references are numbered: ¹, [1], or inlined in parentheses */
+export type FootnoteStyle = "superscript" | "bracket" | "inline";
+
+// =============================================================================
+// Link Mode
+// =============================================================================
+
+/** How [text](url) links are rendered */
+export type LinkMode = "text" | "parentheses" | "angle" | "url" | "reference";
+
+// =============================================================================
+// Image Mode
+// =============================================================================
+
+/** How images and image embeds are rendered */
+export type ImageMode = "alt" | "placeholder" | "url" | "remove";
+
+// =============================================================================
+// Code Block Mode
+// =============================================================================
+
+/** How fenced and indented code blocks are rendered */
+export type CodeBlockMode =
+	| "prefix"
+	| "fenced"
+	| "boxed"
+	| "header"
+	| "placeholder"
+	| "remove";
+
+// =============================================================================
+// HTML Mode
+// =============================================================================
+
+/** How inline and block HTML is rendered: raw, tags stripped, or translated */
+export type HtmlMode = "keep" | "strip" | "translate";
+
+// =============================================================================
+// Math Mode
+// =============================================================================
+
+/** How $inline$ and $$block$$ math is rendered: Unicode, raw, or bare TeX */
+export type MathMode = "unicode" | "keep" | "strip";
+
+// =============================================================================
+// Wikilink Modes
+// =============================================================================
+
+/** How [[wikilinks]] are rendered: alias, note name, full link, or removed */
+export type WikilinkMode = "alias" | "note" | "full" | "remove";
+
+/** How ![[embeds]] are rendered: transcluded content or a placeholder */
+export type EmbedMode = "inline" | "placeholder";
+
+// =============================================================================
+// Frontmatter Mode
+// =============================================================================
+
+/** How YAML frontmatter is rendered: removed, raw, or as key: value lines */
+export type FrontmatterMode = "strip" | "keep" | "header" | "keys";
+
+// =============================================================================
+// Tag Mode
+// =============================================================================
+
+/** How #tags are rendered: kept, without the #, or removed */
+export type TagMode = "keep" | "remove-hash" | "remove";
+
 // =============================================================================
 // Custom Rule Types
 // =============================================================================
@@ -33,6 +170,12 @@ export interface Preset {
 	id: string;
 	name: string;
 	settings: MarkdownConversionSettings;
+	/** Text placed above the converted output; supports {{variables}} */
+	headerTemplate: string;
+	/** Text placed below the converted output; supports {{variables}} */
+	footerTemplate: string;
+	/** Copy command also writes an HTML version for rich text paste */
+	richTextCopy: boolean;
 }
 
 /** Plugin-level settings containing all presets */
@@ -45,6 +188,30 @@ export function generatePresetId(): string {
 	return Math.random().toString(36).substring(2, 9);
 }
 
+// =============================================================================
+// Conversion Options
+// =============================================================================
+
+/** Caller-provided hooks for features that need access to the vault */
+export interface ConversionOptions {
+	/** Return the raw markdown of an embedded note, or null if unavailable */
+	resolveEmbed?: (target: string, subpath: string) => string | null;
+	/** Receive the characters the ASCII-safe stage replaced */
+	onAsciiSubstitutions?: (substitutions: AsciiSubstitution[]) => void;
+}
+
+// =============================================================================
+// ASCII Substitution
+// =============================================================================
+
+/** A character (or run) the ASCII-safe stage replaced, with its count */
+export interface AsciiSubstitution {
+	from: string;
+	/** Empty when the character was removed */
+	to: string;
+	count: number;
+}
+
 // =============================================================================
 // Markdown Conversion Settings
 // =============================================================================
@@ -53,6 +220,9 @@ export function generatePresetId(): string {
 export interface MarkdownConversionSettings {
 	// Master toggle
 	enableMarkdownConversion: boolean;
+	outputFormat: OutputFormat;
+	/** Transliterate the output to ASCII after rendering */
+	asciiSafe: boolean;
 
 	// Headings (section toggle)
 	enableHeadings: boolean;
@@ -60,30 +230,106 @@ export interface MarkdownConversionSettings {
 	heading2Prefix: string;
 	heading3Prefix: string;
 	heading4Prefix: string;
+	heading5Prefix: string;
+	heading6Prefix: string;
+	heading1Transform: HeadingTransform;
+	heading2Transform: HeadingTransform;
+	heading3Transform: HeadingTransform;
+	heading4Transform: HeadingTransform;
+	heading5Transform: HeadingTransform;
+	heading6Transform: HeadingTransform;
+	headingBlankLineBefore: boolean;
+	headingBlankLineAfter: boolean;
 
 	// Lists (individual toggles)
 	enableBullet: boolean;
-	bulletChar: string;
+	/** Bullet per nesting depth, cycled for deeper levels */
+	bulletChars: string[];
+	listIndent: string;
+	listTreeConnectors: boolean;
+	/** Numbering style per nesting depth, cycled for deeper levels */
+	orderedListStyles: OrderedListStyle[];
 	enableCheckbox: boolean;
 	checkboxChecked: string;
 	checkboxUnchecked: string;
+	/** Symbol for each task status character other than [x] and [ ] */
+	taskStatuses: Record<string, string>;
+	taskFilter: TaskFilter;
+	/** Status characters hidden by the "hide-status" filter */
+	hiddenTaskStatuses: string;
+	hideTaskChildren: boolean;
 
 	// Text decoration (mode: keep, remove, unicode)
 	boldMode: TextDecorationMode;
 	italicMode: TextDecorationMode;
 	strikethroughMode: TextDecorationMode;
+	boldStyle: UnicodeStyle;
+	italicStyle: UnicodeStyle;
+
+	// Highlight & underline (mode: keep, remove, unicode, wrap)
+	highlightMode: WrapDecorationMode;
+	highlightWrapper: string;
+	underlineMode: WrapDecorationMode;
+	underlineWrapper: string;
 
 	// Block elements (individual toggles)
 	enableHorizontalRule: boolean;
 	horizontalRule: string;
 	enableBlockquote: boolean;
 	blockquotePrefix: string;
+	enableCallout: boolean;
+	calloutIcons: Record<string, string>;
+
+	// Tables (section toggle)
+	enableTable: boolean;
+	tableStyle: TableStyle;
+
+	// Links, wikilinks & embeds (mode)
+	linkMode: LinkMode;
+	wikilinkMode: WikilinkMode;
+	embedMode: EmbedMode;
+	embedPlaceholder: string;
+
+	// Images (mode)
+	imageMode: ImageMode;
+	imagePlaceholder: string;
+
+	// Footnotes (section toggle)
+	enableFootnotes: boolean;
+	footnoteStyle: FootnoteStyle;
+	footnoteHeading: string;
 
 	// Code (individual toggles)
 	enableCodeBlock: boolean;
 	codeBlockPrefix: string;
+	codeBlockMode: CodeBlockMode;
+	codeBlockPlaceholder: string;
+	/** Mode per language (e.g. dataview: remove), overriding codeBlockMode */
+	codeBlockLanguageModes: Record<string, CodeBlockMode>;
 	enableInlineCode: boolean;
 	inlineCodeWrapper: string;
+	inlineCodeStyle: UnicodeStyle | "none";
+
+	// HTML (mode)
+	htmlMode: HtmlMode;
+	kbdWrapper: string;
+
+	// Math (mode)
+	mathMode: MathMode;
+
+	// Frontmatter (mode)
+	frontmatterMode: FrontmatterMode;
+	/** Keys shown by the "keys" mode, in this order */
+	frontmatterKeys: string[];
+
+	// Tags, block IDs and comments
+	tagMode: TagMode;
+	stripBlockIds: boolean;
+	removeComments: boolean;
+
+	// Line wrapping (section toggle)
+	enableLineWrap: boolean;
+	lineWrapWidth: number;
 
 	// Custom rules (applied after markdown conversion)
 	customRules: CustomRule[];
@@ -96,6 +342,8 @@ export interface MarkdownConversionSettings {
 export const DEFAULT_SETTINGS: MarkdownConversionSettings = {
 	// Master toggle
 	enableMarkdownConversion: true,
+	outputFormat: "plain",
+	asciiSafe: false,
 
 	// Headings
 	enableHeadings: true,
@@ -103,46 +351,122 @@ export const DEFAULT_SETTINGS: MarkdownConversionSettings = {
 	heading2Prefix: "▍",
 	heading3Prefix: "▎",
 	heading4Prefix: "▏",
+	heading5Prefix: "",
+	heading6Prefix: "",
+	heading1Transform: "none",
+	heading2Transform: "none",
+	heading3Transform: "none",
+	heading4Transform: "none",
+	heading5Transform: "none",
+	heading6Transform: "none",
+	headingBlankLineBefore: false,
+	headingBlankLineAfter: false,
 
 	// Lists
 	enableBullet: true,
-	bulletChar: "•",
+	bulletChars: ["•"],
+	listIndent: "  ",
+	listTreeConnectors: false,
+	orderedListStyles: ["decimal", "decimal", "decimal"],
 	enableCheckbox: true,
 	checkboxChecked: "☑",
 	checkboxUnchecked: "☐",
+	taskStatuses: {
+		"/": "◐",
+		"-": "☒",
+		">": "↪",
+		"<": "📅",
+		"!": "❗",
+		"?": "❓",
+		"*": "★",
+	},
+	taskFilter: "all",
+	hiddenTaskStatuses: "x-",
+	hideTaskChildren: true,
 
 	// Text decoration
 	boldMode: "unicode",
 	italicMode: "unicode",
 	strikethroughMode: "unicode",
+	boldStyle: "bold",
+	italicStyle: "italic",
+
+	// Highlight & underline
+	highlightMode: "wrap",
+	highlightWrapper: "【】",
+	underlineMode: "unicode",
+	underlineWrapper: "_",
 
 	// Block elements
 	enableHorizontalRule: true,
 	horizontalRule: "────────────",
 	enableBlockquote: true,
 	blockquotePrefix: "│ ",
+	enableCallout: true,
+	calloutIcons: {
+		note: "📝",
+		abstract: "📋",
+		info: "ℹ️",
+		todo: "☑️",
+		tip: "💡",
+		success: "✅",
+		question: "❓",
+		warning: "⚠️",
+		failure: "❌",
+		danger: "⚡",
+		bug: "🐛",
+		example: "📑",
+		quote: "💬",
+	},
+
+	// Tables
+	enableTable: true,
+	tableStyle: "box",
+
+	// Links, wikilinks & embeds
+	linkMode: "text",
+	wikilinkMode: "alias",
+	embedMode: "placeholder",
+	embedPlaceholder: "[Embed: {name}]",
+
+	// Images
+	imageMode: "alt",
+	imagePlaceholder: "[Image: {alt}]",
+
+	// Footnotes
+	enableFootnotes: true,
+	footnoteStyle: "superscript",
+	footnoteHeading: "Notes",
 
 	// Code
 	enableCodeBlock: true,
 	codeBlockPrefix: "  ",
+	codeBlockMode: "prefix",
+	codeBlockPlaceholder: "[{lang} block]",
+	codeBlockLanguageModes: {},
 	enableInlineCode: true,
 	inlineCodeWrapper: "`",
+	inlineCodeStyle: "none",
+
+	// HTML
+	htmlMode: "translate",
+	kbdWrapper: "[]",
+
+	// Math
+	mathMode: "unicode",
+
+	// Frontmatter
+	frontmatterMode: "strip",
+	frontmatterKeys: ["title", "date"],
+
+	// Tags, block IDs and comments
+	tagMode: "keep",
+	stripBlockIds: true,
+	removeComments: true,
+
+	// Line wrapping
+	enableLineWrap: false,
+	lineWrapWidth: 72,
 
-	// Default custom rules for checkbox variants not recognized by marked
-	customRules: [
-		{
-			name: "In-progress checkbox",
-			pattern: "^(\\s*)• \\[/\\] ?",
-			replacement: "$1◐ ",
-			caseInsensitive: true,
-			enabled: true,
-		},
-		{
-			name: "Cancelled checkbox",
-			pattern: "^(\\s*)• \\[-\\] ?",
-			replacement: "$1☒ ",
-			caseInsensitive: true,
-			enabled: true,
-		},
-	],
+	customRules: [],
 };
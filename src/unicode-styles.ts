@@ -0,0 +1,145 @@
+/**
+ * Unicode style engine for the Mathematical Alphanumeric Symbols block.
+ * Maps ASCII letters and digits to styled code points and back.
+ */
+
+import type { UnicodeStyle } from "./types";
+
+// =============================================================================
+// Style Tables
+// =============================================================================
+
+interface StyleTable {
+	/** First code point of the A-Z run */
+	upper: number;
+	/** First code point of the a-z run */
+	lower: number;
+	/** First code point of the 0-9 run, if the style has digits */
+	digit?: number;
+	/** Letters whose slot in the block is reserved, mapped to their legacy code point */
+	exceptions?: Record<string, number>;
+}
+
+const STYLE_TABLES: Record<UnicodeStyle, StyleTable> = {
+	bold: { upper: 0x1d400, lower: 0x1d41a, digit: 0x1d7ce },
+	italic: { upper: 0x1d434, lower: 0x1d44e, exceptions: { h: 0x210e } },
+	"bold-italic": { upper: 0x1d468, lower: 0x1d482 },
+	sans: { upper: 0x1d5a0, lower: 0x1d5ba, digit: 0x1d7e2 },
+	"sans-bold": { upper: 0x1d5d4, lower: 0x1d5ee, digit: 0x1d7ec },
+	monospace: { upper: 0x1d670, lower: 0x1d68a, digit: 0x1d7f6 },
+	script: {
+		upper: 0x1d49c,
+		lower: 0x1d4b6,
+		exceptions: {
+			B: 0x212c,
+			E: 0x2130,
+			F: 0x2131,
+			H: 0x210b,
+			I: 0x2110,
+			L: 0x2112,
+			M: 0x2133,
+			R: 0x211b,
+			e: 0x212f,
+			g: 0x210a,
+			o: 0x2134,
+		},
+	},
+	"double-struck": {
+		upper: 0x1d538,
+		lower: 0x1d552,
+		digit: 0x1d7d8,
+		exceptions: {
+			C: 0x2102,
+			H: 0x210d,
+			N: 0x2115,
+			P: 0x2119,
+			Q: 0x211a,
+			R: 0x211d,
+			Z: 0x2124,
+		},
+	},
+};
+
+/** Styles that merge when nested, e.g. bold inside italic → bold-italic */
+const STYLE_COMBINATIONS: Record<string, UnicodeStyle> = {
+	"bold+italic": "bold-italic",
+	"italic+bold": "bold-italic",
+	"bold-italic+bold": "bold-italic",
+	"bold-italic+italic": "bold-italic",
+	"sans+bold": "sans-bold",
+	"bold+sans": "sans-bold",
+	"sans-bold+bold": "sans-bold",
+	"sans-bold+sans": "sans-bold",
+};
+
+// =============================================================================
+// Lookup Maps
+// =============================================================================
+
+/** ASCII character → styled character, per style */
+const forwardMaps = new Map<UnicodeStyle, Map<string, string>>();
+
+/** Styled character → ASCII character and the style it came from */
+const reverseMap = new Map<string, { char: string; style: UnicodeStyle }>();
+
+function buildMaps(): void {
+	const runs: Array<[keyof StyleTable, number, number]> = [
+		["upper", 65, 26],
+		["lower", 97, 26],
+		["digit", 48, 10],
+	];
+
+	for (const [style, table] of Object.entries(STYLE_TABLES) as Array<
+		[UnicodeStyle, StyleTable]
+	>) {
+		const forward = new Map<string, string>();
+		for (const [key, asciiStart, length] of runs) {
+			const start = table[key];
+			if (typeof start !== "number") continue;
+
+			for (let i = 0; i < length; i++) {
+				const char = String.fromCharCode(asciiStart + i);
+				const exception = table.exceptions?.[char];
+				const styled = String.fromCodePoint(exception ?? start + i);
+				forward.set(char, styled);
+				reverseMap.set(styled, { char, style });
+			}
+		}
+		forwardMaps.set(style, forward);
+	}
+}
+
+buildMaps();
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Every available style, in the order shown in the settings UI */
+export const UNICODE_STYLES = Object.keys(STYLE_TABLES) as UnicodeStyle[];
+
+/**
+ * Apply a Unicode style to ASCII letters and digits.
+ * Characters already styled are combined where Unicode has a merged style
+ * (bold + italic → bold-italic), otherwise restyled.
+ * Characters without a styled form are left unchanged.
+ */
+export function applyUnicodeStyle(text: string, style: UnicodeStyle): string {
+	const forward = forwardMaps.get(style);
+	if (!forward) return text;
+
+	return [...text]
+		.map((char) => {
+			const styled = reverseMap.get(char);
+			if (!styled) return forward.get(char) ?? char;
+
+			const combined = STYLE_COMBINATIONS[`${styled.style}+${style}`] ?? style;
+			return forwardMaps.get(combined)?.get(styled.char) ?? char;
+		})
+		.join("");
+}
+
+/** Turn styled letters and digits of any style back into ASCII */
+export function removeUnicodeStyles(text: string): string {
+	return [...text].map((char) => reverseMap.get(char)?.char ?? char).join("");
+}
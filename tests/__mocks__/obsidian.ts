@@ -0,0 +1,5 @@
+/**
+ * The obsidian package ships type declarations only. Tests resolve it to
+ * this empty module and vi.mock() the parts they use.
+ */
+export {};
@@ -1,6 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { convertMarkdownToPlainText } from "../src/markdown-converter";
-import { DEFAULT_SETTINGS } from "../src/types";
+import {
+	convertMarkdownToHtml,
+	convertMarkdownToPlainText,
+} from "../src/markdown-converter";
+import { type AsciiSubstitution, DEFAULT_SETTINGS } from "../src/types";
 
 describe("convertMarkdownToPlainText", () => {
 	describe("Headings", () => {
@@ -23,6 +26,72 @@ describe("convertMarkdownToPlainText", () => {
 			const result = convertMarkdownToPlainText("#### Title", DEFAULT_SETTINGS);
 			expect(result.trim()).toBe("▏ Title");
 		});
+
+		it("uses heading 5 and 6 prefixes", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				heading5Prefix: "h5:",
+				heading6Prefix: "h6:",
+			};
+			const result = convertMarkdownToPlainText(
+				"##### Five\n\n###### Six",
+				settings,
+			);
+			expect(result).toBe("h5: Five\nh6: Six\n");
+		});
+
+		it("does not add a leading space when the prefix is empty", () => {
+			const result = convertMarkdownToPlainText("##### Five", DEFAULT_SETTINGS);
+			expect(result).toBe("Five\n");
+		});
+
+		it("applies uppercase transform", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				heading2Transform: "uppercase" as const,
+			};
+			const result = convertMarkdownToPlainText("## Title", settings);
+			expect(result.trim()).toBe("▍ TITLE");
+		});
+
+		it("applies bold Unicode transform", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				heading1Transform: "bold" as const,
+			};
+			const result = convertMarkdownToPlainText("# Title", settings);
+			expect(result.trim()).toBe("▌ 𝐓𝐢𝐭𝐥𝐞");
+		});
+
+		it("underlines setext-style with = for level 1 and - below", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				heading1Prefix: "",
+				heading2Prefix: "",
+				heading1Transform: "underline" as const,
+				heading2Transform: "underline" as const,
+			};
+			const result = convertMarkdownToPlainText("# Title\n## Sub", settings);
+			expect(result).toBe("Title\n=====\nSub\n---\n");
+		});
+
+		it("adds blank lines before and after headings without doubling", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				headingBlankLineBefore: true,
+				headingBlankLineAfter: true,
+			};
+			const tight = convertMarkdownToPlainText(
+				"Intro\n# Title\nBody",
+				settings,
+			);
+			expect(tight).toBe("Intro\n\n▌ Title\n\nBody\n");
+			const spaced = convertMarkdownToPlainText(
+				"Intro\n\n# Title\n\nBody",
+				settings,
+			);
+			expect(spaced).toBe("Intro\n\n▌ Title\n\nBody\n");
+		});
 	});
 
 	describe("Checkboxes", () => {
@@ -56,6 +125,37 @@ describe("convertMarkdownToPlainText", () => {
 			);
 			expect(result.trim()).toBe("☒ Cancelled");
 		});
+
+		it("maps statuses in nested items and with custom bullets", () => {
+			const settings = { ...DEFAULT_SETTINGS, bulletChars: ["-"] };
+			const input = "- [!] Important\n  - [?] Question **here**";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("❗ Important\n  ❓ Question 𝐡𝐞𝐫𝐞\n");
+		});
+
+		it("keeps block syntax after a status marker as text", () => {
+			const result = convertMarkdownToPlainText(
+				"- [!] # important\n- [?] > why ==now==",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toBe("❗ # important\n❓ > why 【now】\n");
+		});
+
+		it("uses the configured status table", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskStatuses: { "/": "[~]", b: "🔖" },
+			};
+			const input = "- [/] Doing\n- [b] Bookmark\n- [-] Not mapped";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("[~] Doing\n🔖 Bookmark\n• [-] Not mapped\n");
+		});
+
+		it("keeps status markers when checkboxes are disabled", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableCheckbox: false };
+			const result = convertMarkdownToPlainText("- [/] Doing", settings);
+			expect(result.trim()).toBe("• [/] Doing");
+		});
 	});
 
 	describe("Bullet lists", () => {
@@ -120,6 +220,64 @@ describe("convertMarkdownToPlainText", () => {
 		});
 	});
 
+	describe("Callouts", () => {
+		it("renders callout as titled box with type icon", () => {
+			const result = convertMarkdownToPlainText(
+				"> [!warning] Be careful\n> Hot **surface**",
+				DEFAULT_SETTINGS,
+			);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("┌─ ⚠️ Be careful");
+			expect(lines[1]).toBe("│ Hot 𝐬𝐮𝐫𝐟𝐚𝐜𝐞");
+			expect(lines[2]).toBe("└─");
+			expect(result).not.toContain("[!warning]");
+		});
+
+		it("handles foldable + and - variants", () => {
+			const collapsed = convertMarkdownToPlainText(
+				"> [!tip]- Hidden\n> Body",
+				DEFAULT_SETTINGS,
+			);
+			const expanded = convertMarkdownToPlainText(
+				"> [!tip]+ Shown\n> Body",
+				DEFAULT_SETTINGS,
+			);
+			expect(collapsed).toContain("┌─ 💡 Hidden\n│ Body");
+			expect(expanded).toContain("┌─ 💡 Shown\n│ Body");
+		});
+
+		it("uses capitalized type as title when none is given", () => {
+			const result = convertMarkdownToPlainText(
+				"> [!NOTE]\n> Body",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim().split("\n")[0]).toBe("┌─ 📝 Note");
+		});
+
+		it("maps type aliases to the built-in icon", () => {
+			const result = convertMarkdownToPlainText(
+				"> [!caution] Careful",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("┌─ ⚠️ Careful");
+		});
+
+		it("uses configured icon for custom types", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				calloutIcons: { ...DEFAULT_SETTINGS.calloutIcons, idea: "[IDEA]" },
+			};
+			const result = convertMarkdownToPlainText("> [!idea] Title", settings);
+			expect(result).toContain("┌─ [IDEA] Title");
+		});
+
+		it("renders as plain blockquote when enableCallout is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableCallout: false };
+			const result = convertMarkdownToPlainText("> [!warning] Title", settings);
+			expect(result.trim()).toBe("│ [!warning] Title");
+		});
+	});
+
 	describe("Horizontal rules", () => {
 		it("converts --- to horizontal rule", () => {
 			const result = convertMarkdownToPlainText("---", DEFAULT_SETTINGS);
@@ -162,6 +320,25 @@ describe("convertMarkdownToPlainText", () => {
 			const result = convertMarkdownToPlainText("**Hello**", settings);
 			expect(result.trim()).toBe("**Hello**");
 		});
+
+		it("uses the configured Unicode style", () => {
+			const settings = { ...DEFAULT_SETTINGS, boldStyle: "sans-bold" as const };
+			const result = convertMarkdownToPlainText("**Hi 42**", settings);
+			expect(result.trim()).toBe("𝗛𝗶 𝟰𝟮");
+		});
+
+		it("combines with italic for ***text***", () => {
+			const result = convertMarkdownToPlainText("***Hi***", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("𝑯𝒊");
+		});
+
+		it("combines bold inside italic", () => {
+			const result = convertMarkdownToPlainText(
+				"*a __b__ c*",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("𝑎 𝒃 𝑐");
+		});
 	});
 
 	describe("Italic text", () => {
@@ -186,6 +363,24 @@ describe("convertMarkdownToPlainText", () => {
 			const result = convertMarkdownToPlainText("*Hello*", settings);
 			expect(result.trim()).toBe("*Hello*");
 		});
+
+		it("uses the reserved code point for italic h", () => {
+			const result = convertMarkdownToPlainText("*hat*", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("ℎ𝑎𝑡");
+		});
+
+		it("uses letterlike exceptions for script and double-struck", () => {
+			const script = { ...DEFAULT_SETTINGS, italicStyle: "script" as const };
+			expect(convertMarkdownToPlainText("*Be*", script).trim()).toBe("ℬℯ");
+
+			const doubleStruck = {
+				...DEFAULT_SETTINGS,
+				italicStyle: "double-struck" as const,
+			};
+			expect(convertMarkdownToPlainText("*CR1*", doubleStruck).trim()).toBe(
+				"ℂℝ𝟙",
+			);
+		});
 	});
 
 	describe("Strikethrough", () => {
@@ -213,558 +408,2018 @@ describe("convertMarkdownToPlainText", () => {
 		});
 	});
 
-	describe("Links", () => {
-		it("extracts link text", () => {
+	describe("Highlight and underline", () => {
+		it("wraps ==text== in the highlight wrapper by default", () => {
 			const result = convertMarkdownToPlainText(
-				"[Click here](https://example.com)",
+				"a ==big **deal**== here",
 				DEFAULT_SETTINGS,
 			);
-			expect(result.trim()).toBe("Click here");
+			expect(result.trim()).toBe("a 【big 𝐝𝐞𝐚𝐥】 here");
 		});
-	});
 
-	describe("Images", () => {
-		it("extracts alt text", () => {
+		it("leaves equals signs that are not a highlight", () => {
+			const result = convertMarkdownToPlainText("x == y", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("x == y");
+		});
+
+		it("does not highlight inside inline code", () => {
+			const result = convertMarkdownToPlainText("`==x==`", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("`==x==`");
+		});
+
+		it("underlines <u>text</u> with combining low lines", () => {
 			const result = convertMarkdownToPlainText(
-				"![Alt text](image.png)",
+				"<u>Hi</u> there",
 				DEFAULT_SETTINGS,
 			);
-			expect(result.trim()).toBe("Alt text");
+			expect(result.trim()).toBe("H\u0332i\u0332 there");
+		});
+
+		it("supports keep, remove and custom wrappers", () => {
+			const input = "==a== <u>b</u>";
+			const keep = {
+				...DEFAULT_SETTINGS,
+				highlightMode: "keep" as const,
+				underlineMode: "keep" as const,
+			};
+			expect(convertMarkdownToPlainText(input, keep).trim()).toBe(
+				"==a== <u>b</u>",
+			);
+
+			const remove = {
+				...DEFAULT_SETTINGS,
+				highlightMode: "remove" as const,
+				underlineMode: "remove" as const,
+			};
+			expect(convertMarkdownToPlainText(input, remove).trim()).toBe("a b");
+
+			const wrap = {
+				...DEFAULT_SETTINGS,
+				highlightWrapper: "<<>>",
+				underlineMode: "wrap" as const,
+				underlineWrapper: "_",
+			};
+			expect(convertMarkdownToPlainText(input, wrap).trim()).toBe("<<a>> _b_");
 		});
 	});
 
-	describe("Code", () => {
-		it("wraps inline code", () => {
+	describe("Links", () => {
+		it("extracts link text", () => {
 			const result = convertMarkdownToPlainText(
-				"some `code` here",
+				"[Click here](https://example.com)",
 				DEFAULT_SETTINGS,
 			);
-			expect(result).toContain("`code`");
+			expect(result.trim()).toBe("Click here");
 		});
 
-		it("prefixes code block lines", () => {
-			const input = "```js\nconst x = 1;\n```";
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("  const x = 1;");
+		it("renders text (url) in parentheses mode", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				linkMode: "parentheses" as const,
+			};
+			const result = convertMarkdownToPlainText("[docs](https://x)", settings);
+			expect(result.trim()).toBe("docs (https://x)");
 		});
 
-		it("does not convert markdown inside code blocks", () => {
-			const input = "```\n**not bold** and *not italic*\n```";
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("**not bold**");
-			expect(result).toContain("*not italic*");
+		it("renders text <url> in angle mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "angle" as const };
+			const result = convertMarkdownToPlainText("[docs](https://x)", settings);
+			expect(result.trim()).toBe("docs <https://x>");
 		});
 
-		it("does not convert markdown inside inline code", () => {
+		it("renders only the URL in url mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "url" as const };
+			const result = convertMarkdownToPlainText("[docs](https://x)", settings);
+			expect(result.trim()).toBe("https://x");
+		});
+
+		it("collects numbered references in reference mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "reference" as const };
 			const result = convertMarkdownToPlainText(
-				"Use `**bold**` syntax",
-				DEFAULT_SETTINGS,
+				"[a](https://a) and [b](https://b) and [again](https://a)",
+				settings,
+			);
+			expect(result).toBe(
+				"a [1] and b [2] and again [1]\n\n[1] https://a\n[2] https://b\n",
 			);
-			expect(result).toContain("`**bold**`");
 		});
-	});
 
-	describe("Custom rules", () => {
-		it("applies enabled custom rules", () => {
-			const settings = {
-				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "foo to bar",
-						pattern: "foo",
-						replacement: "bar",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
-			};
-			const result = convertMarkdownToPlainText("foo and foo", settings);
-			expect(result).toContain("bar and bar");
+		it("drops link reference definitions with their blank line", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "reference" as const };
+			const result = convertMarkdownToPlainText(
+				"See [x][1].\n\n[1]: https://r.com\n\nAfter",
+				settings,
+			);
+			expect(result).toBe("See x [1].\n\nAfter\n\n[1] https://r.com\n");
 		});
 
-		it("skips disabled custom rules", () => {
+		it("does not duplicate bare URLs and autolinks", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "",
-						pattern: "foo",
-						replacement: "bar",
-						caseInsensitive: true,
-						enabled: false,
-					},
-				],
+				linkMode: "parentheses" as const,
 			};
-			const result = convertMarkdownToPlainText("foo", settings);
-			expect(result).toContain("foo");
+			const result = convertMarkdownToPlainText(
+				"https://a.com <https://b.com> <me@example.com>",
+				settings,
+			);
+			expect(result.trim()).toBe("https://a.com https://b.com me@example.com");
 		});
 
-		it("applies multiple rules in order", () => {
+		it("does not duplicate www. and email autolinks", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "reference" as const };
+			const result = convertMarkdownToPlainText(
+				"see www.example.com or me@example.com",
+				settings,
+			);
+			expect(result.trim()).toBe("see www.example.com or me@example.com");
+		});
+
+		it("does not duplicate a link whose text equals its URL", () => {
+			const settings = { ...DEFAULT_SETTINGS, linkMode: "reference" as const };
+			const result = convertMarkdownToPlainText(
+				"[https://x](https://x)",
+				settings,
+			);
+			expect(result.trim()).toBe("https://x");
+		});
+	});
+
+	describe("Images", () => {
+		it("extracts alt text", () => {
+			const result = convertMarkdownToPlainText(
+				"![Alt text](image.png)",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Alt text");
+		});
+
+		it("falls back to file name when alt text is empty", () => {
+			const result = convertMarkdownToPlainText(
+				"![](assets/diagram.png)",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("diagram.png");
+		});
+
+		it("renders placeholder template with variables", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "a to b",
-						pattern: "a",
-						replacement: "b",
-						caseInsensitive: true,
-						enabled: true,
-					},
-					{
-						name: "b to c",
-						pattern: "b",
-						replacement: "c",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
+				imageMode: "placeholder" as const,
+				imagePlaceholder: "[{alt} | {src} | {title}]",
 			};
-			const result = convertMarkdownToPlainText("aaa", settings);
-			expect(result.trim()).toBe("ccc");
+			const result = convertMarkdownToPlainText(
+				'![Chart](chart.png "Sales")',
+				settings,
+			);
+			expect(result.trim()).toBe("[Chart | chart.png | Sales]");
 		});
 
-		it("handles capture groups", () => {
+		it("renders the URL in url mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, imageMode: "url" as const };
+			const result = convertMarkdownToPlainText(
+				"![Chart](https://x/chart.png)",
+				settings,
+			);
+			expect(result.trim()).toBe("https://x/chart.png");
+		});
+
+		it("removes images in remove mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, imageMode: "remove" as const };
+			const result = convertMarkdownToPlainText(
+				"a ![Chart](c.png) b",
+				settings,
+			);
+			expect(result.trim()).toBe("a  b");
+		});
+
+		it("handles Obsidian image embeds with size", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "email swap",
-						pattern: "(\\w+)@(\\w+)",
-						replacement: "$2:$1",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
+				imageMode: "placeholder" as const,
 			};
-			const result = convertMarkdownToPlainText("user@domain", settings);
-			expect(result).toContain("domain:user");
+			expect(
+				convertMarkdownToPlainText("![[image.png|300]]", settings).trim(),
+			).toBe("[Image: image.png]");
+			expect(
+				convertMarkdownToPlainText("![[image.png|Logo|300]]", settings).trim(),
+			).toBe("[Image: Logo]");
 		});
 
-		it("handles invalid regex gracefully", () => {
-			const settings = {
-				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "invalid",
-						pattern: "[invalid",
-						replacement: "x",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
-			};
-			// Should not throw
-			const result = convertMarkdownToPlainText("test", settings);
-			expect(result).toContain("test");
+		it("strips size suffix from markdown image alt text", () => {
+			const result = convertMarkdownToPlainText(
+				"![Logo|100x50](logo.png)",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Logo");
 		});
 	});
 
-	describe("Nested ordered lists", () => {
-		it("restarts numbering for nested ordered lists with indentation", () => {
-			const input = `1. o
-2. s
-    1. ou
-    2. empty`;
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			const lines = result.trim().split("\n");
-			expect(lines[0]).toBe("1. o");
-			expect(lines[1]).toBe("2. s");
-			expect(lines[2]).toBe("  1. ou"); // Indented, restart at 1
-			expect(lines[3]).toBe("  2. empty"); // Indented
+	describe("Wikilinks", () => {
+		it("renders alias by default", () => {
+			const result = convertMarkdownToPlainText(
+				"See [[Some Note|the note]]",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("See the note");
+		});
+
+		it("falls back to note and heading when there is no alias", () => {
+			const result = convertMarkdownToPlainText(
+				"[[folder/Note#Heading]]",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Note > Heading");
+		});
+
+		it("renders note name only in note mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, wikilinkMode: "note" as const };
+			const result = convertMarkdownToPlainText(
+				"[[folder/Note#Heading|alias]]",
+				settings,
+			);
+			expect(result.trim()).toBe("Note");
+		});
+
+		it("renders full link in full mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, wikilinkMode: "full" as const };
+			const result = convertMarkdownToPlainText(
+				"[[folder/Note#Heading|alias]]",
+				settings,
+			);
+			expect(result.trim()).toBe("folder/Note#Heading");
+		});
+
+		it("removes links in remove mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, wikilinkMode: "remove" as const };
+			const result = convertMarkdownToPlainText("a [[Note]] b", settings);
+			expect(result.trim()).toBe("a  b");
+		});
+
+		it("handles escaped alias separator inside tables", () => {
+			const result = convertMarkdownToPlainText(
+				"| Link |\n|---|\n| [[Note\\|alias]] |",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("│ alias │");
 		});
 	});
 
-	describe("Loose lists (with blank lines)", () => {
-		it("handles checkboxes in loose lists", () => {
-			const input = `- [ ] Task 1
-- [ ] Task 2
+	describe("Embeds", () => {
+		const inlineSettings = {
+			...DEFAULT_SETTINGS,
+			embedMode: "inline" as const,
+		};
 
-- [x] Task 3`;
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).not.toContain("[ ]");
-			expect(result).not.toContain("[x]");
-			expect(result).toContain("☐ Task 1");
-			expect(result).toContain("☐ Task 2");
-			expect(result).toContain("☑ Task 3");
+		it("renders placeholder by default", () => {
+			const result = convertMarkdownToPlainText(
+				"![[Meeting Notes]]",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("[Embed: Meeting Notes]");
 		});
 
-		it("handles nested list in loose parent", () => {
-			const input = `- Parent 1
+		it("inlines converted content from the resolver", () => {
+			const result = convertMarkdownToPlainText(
+				"Before\n\n![[Other]]\n\nAfter",
+				inlineSettings,
+				{
+					resolveEmbed: (target) =>
+						target === "Other" ? "# Other\n\n- **item**" : null,
+				},
+			);
+			expect(result).toContain("▌ Other");
+			expect(result).toContain("• 𝐢𝐭𝐞𝐦");
+			expect(result).toContain("After");
+		});
 
-- Parent 2
-  - Child A
-  - Child B
+		it("puts a multi-line embed inside a paragraph on lines of its own", () => {
+			const resolveEmbed = (target: string) =>
+				target === "List" ? "- a\n- b" : "one line";
+			const result = convertMarkdownToPlainText(
+				"Start ![[List]] end\n\nSee ![[Line]] here",
+				inlineSettings,
+				{ resolveEmbed },
+			);
+			expect(result).toBe("Start\n• a\n• b\nend\n\nSee one line here\n");
+		});
 
-- Parent 3`;
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("• Parent 1");
-			expect(result).toContain("• Parent 2");
-			expect(result).toContain("• Child A");
-			expect(result).toContain("• Parent 3");
+		it("passes the subpath to the resolver", () => {
+			const calls: string[] = [];
+			convertMarkdownToPlainText("![[Note#Section]]", inlineSettings, {
+				resolveEmbed: (target, subpath) => {
+					calls.push(`${target}|${subpath}`);
+					return "";
+				},
+			});
+			expect(calls).toEqual(["Note|Section"]);
 		});
 
-		it("handles mixed tight and loose sections", () => {
-			const input = `- Tight 1
-- Tight 2
+		it("falls back to placeholder when the note cannot be resolved", () => {
+			const result = convertMarkdownToPlainText(
+				"![[Missing]]",
+				inlineSettings,
+				{
+					resolveEmbed: () => null,
+				},
+			);
+			expect(result.trim()).toBe("[Embed: Missing]");
+		});
 
-- Loose after blank
+		it("stops at the maximum depth for embed cycles", () => {
+			const result = convertMarkdownToPlainText("![[Loop]]", inlineSettings, {
+				resolveEmbed: () => "x ![[Loop]]",
+			});
+			expect(result.trim()).toBe("x x x [Embed: Loop]");
+		});
+	});
 
-- Another loose
-- Back to tight`;
+	describe("Footnotes", () => {
+		const input = `Claim[^b] and another[^a].
+
+[^a]: Second source
+[^b]: First **source**`;
+
+		it("renumbers references with superscript digits", () => {
 			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("• Tight 1");
-			expect(result).toContain("• Tight 2");
-			expect(result).toContain("• Loose after blank");
-			expect(result).toContain("• Another loose");
-			expect(result).toContain("• Back to tight");
-			// Should not have duplicated bullets
-			expect(result).not.toMatch(/• •/);
+			expect(result).toBe(
+				"Claim¹ and another².\n\nNotes\n¹ First 𝐬𝐨𝐮𝐫𝐜𝐞\n² Second source\n",
+			);
 		});
-	});
 
-	describe("Structural variations - HIGH RISK", () => {
-		it("handles bold inside link text", () => {
+		it("uses bracketed numbers in bracket style", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				footnoteStyle: "bracket" as const,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toContain("Claim[1] and another[2].");
+			expect(result).toContain("[1] First 𝐬𝐨𝐮𝐫𝐜𝐞\n[2] Second source");
+		});
+
+		it("inlines footnote text in parentheses in inline style", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				footnoteStyle: "inline" as const,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result.trim()).toBe(
+				"Claim (First 𝐬𝐨𝐮𝐫𝐜𝐞) and another (Second source).",
+			);
+		});
+
+		it("indents continuation lines of multi-line definitions", () => {
 			const result = convertMarkdownToPlainText(
-				"[**Bold link**](url)",
+				"Text[^1]\n\n[^1]: Line one\n    line two",
 				DEFAULT_SETTINGS,
 			);
-			expect(result.trim()).toBe("𝐁𝐨𝐥𝐝 𝐥𝐢𝐧𝐤");
+			expect(result).toContain("¹ Line one\n  line two");
 		});
 
-		it("handles italic inside heading", () => {
+		it("leaves blank lines between note paragraphs empty", () => {
 			const result = convertMarkdownToPlainText(
-				"# Title with *italic*",
+				"Text[^1]\n\n[^1]: First\n\n    Second",
 				DEFAULT_SETTINGS,
 			);
-			expect(result).toContain("▌");
-			expect(result).toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
+			expect(result).toBe("Text¹\n\nNotes\n¹ First\n\n  Second\n");
 		});
 
-		it("handles bold inside list item", () => {
+		it("leaves no blank line where an inline note was defined", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				footnoteStyle: "inline" as const,
+			};
 			const result = convertMarkdownToPlainText(
-				"- Item with **bold** text",
+				"Text[^1].\n\n[^1]: First note.",
+				settings,
+			);
+			expect(result).toBe("Text (First note.).\n");
+		});
+
+		it("lists unreferenced definitions after referenced ones", () => {
+			const result = convertMarkdownToPlainText(
+				"Text[^used]\n\n[^unused]: Unused\n[^used]: Used",
 				DEFAULT_SETTINGS,
 			);
-			expect(result).toContain("• Item with");
-			expect(result).toContain("𝐛𝐨𝐥𝐝");
+			expect(result).toContain("¹ Used\n² Unused");
 		});
 
-		it("handles formatting inside blockquote", () => {
+		it("leaves references without a definition untouched", () => {
+			const result = convertMarkdownToPlainText("Text[^x]", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("Text[^x]");
+		});
+
+		it("omits the heading when footnoteHeading is empty", () => {
+			const settings = { ...DEFAULT_SETTINGS, footnoteHeading: "" };
+			const result = convertMarkdownToPlainText("A[^1]\n\n[^1]: B", settings);
+			expect(result).toBe("A¹\n\n¹ B\n");
+		});
+
+		it("keeps raw footnotes when enableFootnotes is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableFootnotes: false };
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toContain("Claim[^b]");
+			expect(result).toContain("[^a]: Second source");
+			expect(result).not.toContain("Notes");
+		});
+	});
+
+	describe("Code", () => {
+		it("wraps inline code", () => {
 			const result = convertMarkdownToPlainText(
-				"> Quote with **bold** and *italic*",
+				"some `code` here",
 				DEFAULT_SETTINGS,
 			);
-			expect(result).toContain("│");
-			expect(result).toContain("𝐛𝐨𝐥𝐝");
-			expect(result).toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
+			expect(result).toContain("`code`");
 		});
 
-		it("handles list inside blockquote", () => {
-			const input = `> Quote
-> - Item 1
-> - Item 2`;
+		it("prefixes code block lines", () => {
+			const input = "```js\nconst x = 1;\n```";
 			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("│");
-			expect(result).toContain("•");
+			expect(result).toContain("  const x = 1;");
 		});
 
-		it("handles deeply nested lists (4 levels)", () => {
-			const input = `- Level 1
-  - Level 2
-    - Level 3
-      - Level 4`;
+		it("does not convert markdown inside code blocks", () => {
+			const input = "```\n**not bold** and *not italic*\n```";
 			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			const lines = result.trim().split("\n");
-			expect(lines[0]).toBe("• Level 1");
-			expect(lines[1]).toBe("  • Level 2");
-			expect(lines[2]).toBe("    • Level 3");
-			expect(lines[3]).toBe("      • Level 4");
+			expect(result).toContain("**not bold**");
+			expect(result).toContain("*not italic*");
 		});
 
-		it("handles tab indentation in lists", () => {
-			const input = "- Parent\n\t- Child with tab";
-			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
-			expect(result).toContain("• Parent");
-			expect(result).toContain("• Child");
+		it("does not convert markdown inside inline code", () => {
+			const result = convertMarkdownToPlainText(
+				"Use `**bold**` syntax",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("`**bold**`");
 		});
-	});
 
-	describe("Custom rules edge cases", () => {
-		it("rule can match converted unicode characters", () => {
+		it("keeps the fence and language in fenced mode", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "bold to X",
-						pattern: "𝐛𝐨𝐥𝐝",
-						replacement: "X",
-						caseInsensitive: false,
-						enabled: true,
-					},
-				],
+				codeBlockMode: "fenced" as const,
 			};
-			const result = convertMarkdownToPlainText("**bold**", settings);
-			expect(result).toContain("X");
+			const input = "```python\nprint(1)\n```";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("```python\nprint(1)\n```\n");
 		});
 
-		it("handles empty replacement", () => {
+		it("lengthens the fence around code containing backticks", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "remove foo",
-						pattern: "foo",
-						replacement: "",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
+				codeBlockMode: "fenced" as const,
 			};
-			const result = convertMarkdownToPlainText("foo bar foo", settings);
-			expect(result.trim()).toBe("bar");
+			const input = "````md\n```\nx\n```\n````";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("````md\n```\nx\n```\n````\n");
 		});
 
-		it("case sensitive rule respects case", () => {
+		it("draws a box with the language in boxed mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, codeBlockMode: "boxed" as const };
+			const input = "```js\nlet a = 1;\nf();\n```";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe(
+				"┌─ js ───────┐\n│ let a = 1; │\n│ f();       │\n└────────────┘\n",
+			);
+		});
+
+		it("adds a language header line in header mode", () => {
 			const settings = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "case sensitive",
-						pattern: "Foo",
-						replacement: "X",
-						caseInsensitive: false,
-						enabled: true,
-					},
-				],
+				codeBlockMode: "header" as const,
 			};
-			const result = convertMarkdownToPlainText("Foo foo FOO", settings);
-			expect(result).toContain("X");
-			expect(result).toContain("foo");
-			expect(result).toContain("FOO");
+			const input = "```python\nprint(1)\n```";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("── python ──\n  print(1)\n");
 		});
 
-		it("applies rule before markdown conversion when applyBeforeConversion is true", () => {
-			// Replace **bold** with REPLACED before markdown processing
-			// So markdown won't convert it to unicode bold
-			const settings = {
+		it("replaces or removes blocks", () => {
+			const input = "Before\n\n```sql\nSELECT 1\n```\n\nAfter";
+			const placeholder = {
 				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "replace bold syntax",
-						pattern: "\\*\\*bold\\*\\*",
-						replacement: "REPLACED",
-						caseInsensitive: false,
-						enabled: true,
-						applyBeforeConversion: true,
-					},
-				],
+				codeBlockMode: "placeholder" as const,
 			};
-			const result = convertMarkdownToPlainText("**bold**", settings);
-			expect(result.trim()).toBe("REPLACED");
-			// Should NOT contain unicode bold since we replaced before conversion
+			expect(convertMarkdownToPlainText(input, placeholder)).toBe(
+				"Before\n\n[sql block]\n\nAfter\n",
+			);
+
+			const remove = { ...DEFAULT_SETTINGS, codeBlockMode: "remove" as const };
+			expect(convertMarkdownToPlainText(input, remove)).toBe(
+				"Before\n\nAfter\n",
+			);
+		});
+
+		it("applies per-language modes", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				codeBlockLanguageModes: {
+					dataview: "remove" as const,
+					mermaid: "placeholder" as const,
+				},
+			};
+			const input =
+				"```dataview\nLIST\n```\n\n```Mermaid\ngraph TD\n```\n\n```\nkept\n```";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("[Mermaid block]\n\n  kept\n");
+		});
+
+		it("applies the inline code Unicode style", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				inlineCodeStyle: "monospace" as const,
+				inlineCodeWrapper: "",
+			};
+			const result = convertMarkdownToPlainText("run `ls -a`", settings);
+			expect(result.trim()).toBe("run 𝚕𝚜 -𝚊");
+		});
+	});
+
+	describe("Tables", () => {
+		const input = `| Name | Qty | Note |
+|:-----|----:|:----:|
+| Apple | 3 | ok |
+| Kiwi | 12 | **new** |`;
+
+		it("renders box-drawing grid with column alignment", () => {
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("┌───────┬─────┬──────┐");
+			expect(lines[1]).toBe("│ Name  │ Qty │ Note │");
+			expect(lines[2]).toBe("├───────┼─────┼──────┤");
+			expect(lines[3]).toBe("│ Apple │   3 │  ok  │");
+			expect(lines[4]).toBe("│ Kiwi  │  12 │ 𝐧𝐞𝐰  │");
+			expect(lines[5]).toBe("└───────┴─────┴──────┘");
+		});
+
+		it("renders ASCII grid", () => {
+			const settings = { ...DEFAULT_SETTINGS, tableStyle: "ascii" as const };
+			const result = convertMarkdownToPlainText(input, settings);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("+-------+-----+------+");
+			expect(lines[1]).toBe("| Name  | Qty | Note |");
+			expect(lines[2]).toBe("+-------+-----+------+");
+			expect(lines[3]).toBe("| Apple |   3 |  ok  |");
+			expect(lines[5]).toBe("+-------+-----+------+");
+		});
+
+		it("renders tab-separated values", () => {
+			const settings = { ...DEFAULT_SETTINGS, tableStyle: "tsv" as const };
+			const result = convertMarkdownToPlainText(input, settings);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("Name\tQty\tNote");
+			expect(lines[1]).toBe("Apple\t3\tok");
+		});
+
+		it("ignores combining marks when measuring column width", () => {
+			const result = convertMarkdownToPlainText(
+				"| A |\n|---|\n| ~~ab~~ |",
+				DEFAULT_SETTINGS,
+			);
+			const lines = result.trim().split("\n");
+			expect(lines[1]).toBe("│ A  │");
+			expect(lines[3]).toBe("│ a̶b̶ │");
+		});
+
+		it("keeps raw markdown when enableTable is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableTable: false };
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toContain("|:-----|----:|:----:|");
+		});
+	});
+
+	describe("Custom rules", () => {
+		it("applies enabled custom rules", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "foo to bar",
+						pattern: "foo",
+						replacement: "bar",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("foo and foo", settings);
+			expect(result).toContain("bar and bar");
+		});
+
+		it("skips disabled custom rules", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "",
+						pattern: "foo",
+						replacement: "bar",
+						caseInsensitive: true,
+						enabled: false,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("foo", settings);
+			expect(result).toContain("foo");
+		});
+
+		it("applies multiple rules in order", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "a to b",
+						pattern: "a",
+						replacement: "b",
+						caseInsensitive: true,
+						enabled: true,
+					},
+					{
+						name: "b to c",
+						pattern: "b",
+						replacement: "c",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("aaa", settings);
+			expect(result.trim()).toBe("ccc");
+		});
+
+		it("handles capture groups", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "email swap",
+						pattern: "(\\w+)@(\\w+)",
+						replacement: "$2:$1",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("user@domain", settings);
+			expect(result).toContain("domain:user");
+		});
+
+		it("handles invalid regex gracefully", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "invalid",
+						pattern: "[invalid",
+						replacement: "x",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			// Should not throw
+			const result = convertMarkdownToPlainText("test", settings);
+			expect(result).toContain("test");
+		});
+	});
+
+	describe("Nested ordered lists", () => {
+		it("restarts numbering for nested ordered lists with indentation", () => {
+			const input = `1. o
+2. s
+    1. ou
+    2. empty`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("1. o");
+			expect(lines[1]).toBe("2. s");
+			expect(lines[2]).toBe("  1. ou"); // Indented, restart at 1
+			expect(lines[3]).toBe("  2. empty"); // Indented
+		});
+	});
+
+	describe("List nesting", () => {
+		it("cycles bullet characters by depth", () => {
+			const settings = { ...DEFAULT_SETTINGS, bulletChars: ["•", "◦"] };
+			const input = "- a\n  - b\n    - c";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("• a\n  ◦ b\n    • c\n");
+		});
+
+		it("uses the configured indent string", () => {
+			const settings = { ...DEFAULT_SETTINGS, listIndent: "\t" };
+			const input = "- a\n  - b\n    - c";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("• a\n\t• b\n\t\t• c\n");
+		});
+
+		it("draws tree connectors for nested items", () => {
+			const settings = { ...DEFAULT_SETTINGS, listTreeConnectors: true };
+			const input = "- a\n  - b\n    - c\n    - d\n  - e\n    1. f";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe(
+				"• a\n├─ • b\n│  ├─ • c\n│  └─ • d\n└─ • e\n   └─ 1. f\n",
+			);
+		});
+
+		it("continues tree lines under wrapped items", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				listTreeConnectors: true,
+				enableLineWrap: true,
+				lineWrapWidth: 20,
+			};
+			const input = "- a\n  - b that is long enough to wrap\n  - c";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe(
+				"• a\n├─ • b that is long\n│    enough to wrap\n└─ • c\n",
+			);
+		});
+
+		it("puts blocks after a tight item's text on lines of their own", () => {
+			const input =
+				"- item\n  ```js\n  x()\n  ```\n- table\n  | a |\n  |---|\n  | 1 |";
+			const result = convertMarkdownToPlainText(input, {
+				...DEFAULT_SETTINGS,
+				tableStyle: "ascii" as const,
+			});
+			expect(result).toBe(
+				"• item\n    x()\n• table\n  +---+\n  | a |\n  +---+\n  | 1 |\n  +---+\n",
+			);
+		});
+	});
+
+	describe("Task filter", () => {
+		const input =
+			"- [ ] todo\n- [x] done\n  - [ ] subtask\n- [/] doing\n- note";
+
+		it("shows all tasks by default", () => {
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("☐ todo\n☑ done\n  ☐ subtask\n◐ doing\n• note\n");
+		});
+
+		it("hides completed tasks with their children", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-completed" as const,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("☐ todo\n◐ doing\n• note\n");
+		});
+
+		it("keeps children of hidden tasks when configured", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-completed" as const,
+				hideTaskChildren: false,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("☐ todo\n☐ subtask\n◐ doing\n• note\n");
+		});
+
+		it("hides incomplete tasks", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-incomplete" as const,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("☑ done\n• note\n");
+		});
+
+		it("hides tasks by status character", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-status" as const,
+				hiddenTaskStatuses: "/ ",
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("☑ done\n• note\n");
+		});
+
+		it("renumbers the remaining ordered items", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-completed" as const,
+			};
+			const result = convertMarkdownToPlainText(
+				"1. [x] a\n2. b\n3. c",
+				settings,
+			);
+			expect(result).toBe("1. b\n2. c\n");
+		});
+
+		it("leaves no blank lines where a list was emptied", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				taskFilter: "hide-completed" as const,
+			};
+			const result = convertMarkdownToPlainText(
+				"Before\n\n- [x] a\n- [x] b\n\nAfter",
+				settings,
+			);
+			expect(result).toBe("Before\n\nAfter\n");
+		});
+	});
+
+	describe("Ordered list numbering", () => {
+		it("keeps the start number", () => {
+			const result = convertMarkdownToPlainText(
+				"5. five\n6. six",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toBe("5. five\n6. six\n");
+		});
+
+		it("uses a numbering style per depth", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				orderedListStyles: [
+					"upper-roman" as const,
+					"lower-alpha" as const,
+					"circled" as const,
+				],
+			};
+			const input = "1. a\n2. b\n   1. c\n   2. d\n      1. e";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("I. a\nII. b\n  a. c\n  b. d\n    ① e\n");
+		});
+
+		it("cycles styles for deeper levels", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				orderedListStyles: ["decimal-paren" as const, "upper-alpha" as const],
+			};
+			const input = "1. a\n   1. b\n      1. c";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("1) a\n  A. b\n    1) c\n");
+		});
+
+		it("prefixes parent numbers in outline style", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				orderedListStyles: ["outline" as const],
+			};
+			const input = "2. a\n   1. b\n   2. c\n      1. d";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("2. a\n  2.1 b\n  2.2 c\n    2.2.1 d\n");
+		});
+
+		it("continues letters and numerals past single digits", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				orderedListStyles: ["lower-alpha" as const],
+			};
+			expect(convertMarkdownToPlainText("27. x", settings)).toBe("aa. x\n");
+			expect(
+				convertMarkdownToPlainText("14. x", {
+					...settings,
+					orderedListStyles: ["lower-roman"],
+				}),
+			).toBe("xiv. x\n");
+		});
+	});
+
+	describe("Loose lists (with blank lines)", () => {
+		it("handles checkboxes in loose lists", () => {
+			const input = `- [ ] Task 1
+- [ ] Task 2
+
+- [x] Task 3`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).not.toContain("[ ]");
+			expect(result).not.toContain("[x]");
+			expect(result).toContain("☐ Task 1");
+			expect(result).toContain("☐ Task 2");
+			expect(result).toContain("☑ Task 3");
+		});
+
+		it("handles nested list in loose parent", () => {
+			const input = `- Parent 1
+
+- Parent 2
+  - Child A
+  - Child B
+
+- Parent 3`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toContain("• Parent 1");
+			expect(result).toContain("• Parent 2");
+			expect(result).toContain("• Child A");
+			expect(result).toContain("• Parent 3");
+		});
+
+		it("handles mixed tight and loose sections", () => {
+			const input = `- Tight 1
+- Tight 2
+
+- Loose after blank
+
+- Another loose
+- Back to tight`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toContain("• Tight 1");
+			expect(result).toContain("• Tight 2");
+			expect(result).toContain("• Loose after blank");
+			expect(result).toContain("• Another loose");
+			expect(result).toContain("• Back to tight");
+			// Should not have duplicated bullets
+			expect(result).not.toMatch(/• •/);
+		});
+	});
+
+	describe("Structural variations - HIGH RISK", () => {
+		it("handles bold inside link text", () => {
+			const result = convertMarkdownToPlainText(
+				"[**Bold link**](url)",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("𝐁𝐨𝐥𝐝 𝐥𝐢𝐧𝐤");
+		});
+
+		it("handles italic inside heading", () => {
+			const result = convertMarkdownToPlainText(
+				"# Title with *italic*",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("▌");
+			expect(result).toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
+		});
+
+		it("handles bold inside list item", () => {
+			const result = convertMarkdownToPlainText(
+				"- Item with **bold** text",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("• Item with");
+			expect(result).toContain("𝐛𝐨𝐥𝐝");
+		});
+
+		it("handles formatting inside blockquote", () => {
+			const result = convertMarkdownToPlainText(
+				"> Quote with **bold** and *italic*",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("│");
+			expect(result).toContain("𝐛𝐨𝐥𝐝");
+			expect(result).toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
+		});
+
+		it("handles list inside blockquote", () => {
+			const input = `> Quote
+> - Item 1
+> - Item 2`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toContain("│");
+			expect(result).toContain("•");
+		});
+
+		it("handles deeply nested lists (4 levels)", () => {
+			const input = `- Level 1
+  - Level 2
+    - Level 3
+      - Level 4`;
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			const lines = result.trim().split("\n");
+			expect(lines[0]).toBe("• Level 1");
+			expect(lines[1]).toBe("  • Level 2");
+			expect(lines[2]).toBe("    • Level 3");
+			expect(lines[3]).toBe("      • Level 4");
+		});
+
+		it("handles tab indentation in lists", () => {
+			const input = "- Parent\n\t- Child with tab";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toContain("• Parent");
+			expect(result).toContain("• Child");
+		});
+	});
+
+	describe("Custom rules edge cases", () => {
+		it("rule can match converted unicode characters", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "bold to X",
+						pattern: "𝐛𝐨𝐥𝐝",
+						replacement: "X",
+						caseInsensitive: false,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("**bold**", settings);
+			expect(result).toContain("X");
+		});
+
+		it("handles empty replacement", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "remove foo",
+						pattern: "foo",
+						replacement: "",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("foo bar foo", settings);
+			expect(result.trim()).toBe("bar");
+		});
+
+		it("case sensitive rule respects case", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "case sensitive",
+						pattern: "Foo",
+						replacement: "X",
+						caseInsensitive: false,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("Foo foo FOO", settings);
+			expect(result).toContain("X");
+			expect(result).toContain("foo");
+			expect(result).toContain("FOO");
+		});
+
+		it("applies rule before markdown conversion when applyBeforeConversion is true", () => {
+			// Replace **bold** with REPLACED before markdown processing
+			// So markdown won't convert it to unicode bold
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "replace bold syntax",
+						pattern: "\\*\\*bold\\*\\*",
+						replacement: "REPLACED",
+						caseInsensitive: false,
+						enabled: true,
+						applyBeforeConversion: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("**bold**", settings);
+			expect(result.trim()).toBe("REPLACED");
+			// Should NOT contain unicode bold since we replaced before conversion
 			expect(result).not.toContain("𝐛𝐨𝐥𝐝");
 		});
 
-		it("applies rule after markdown conversion by default", () => {
-			// Without applyBeforeConversion, rule runs after conversion
-			// So **bold** becomes unicode bold first, then rule won't match
+		it("applies rule after markdown conversion by default", () => {
+			// Without applyBeforeConversion, rule runs after conversion
+			// So **bold** becomes unicode bold first, then rule won't match
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "replace bold syntax",
+						pattern: "\\*\\*bold\\*\\*",
+						replacement: "REPLACED",
+						caseInsensitive: false,
+						enabled: true,
+						// applyBeforeConversion defaults to false
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("**bold**", settings);
+			// Should contain unicode bold since rule ran after conversion
+			expect(result).toContain("𝐛𝐨𝐥𝐝");
+			expect(result).not.toContain("REPLACED");
+		});
+
+		it("applies before and after rules in correct order", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "after rule",
+						pattern: "𝐛𝐨𝐥𝐝",
+						replacement: "AFTER",
+						caseInsensitive: false,
+						enabled: true,
+						applyBeforeConversion: false,
+					},
+					{
+						name: "before rule",
+						pattern: "\\*italic\\*",
+						replacement: "BEFORE",
+						caseInsensitive: false,
+						enabled: true,
+						applyBeforeConversion: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText(
+				"**bold** and *italic*",
+				settings,
+			);
+			// "*italic*" replaced before conversion, so no italic processing
+			expect(result).toContain("BEFORE");
+			expect(result).not.toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
+			// bold converted to unicode, then replaced by after rule
+			expect(result).toContain("AFTER");
+		});
+	});
+
+	describe("Section toggles", () => {
+		it("skips heading conversion when enableHeadings is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableHeadings: false };
+			const result = convertMarkdownToPlainText("# Title", settings);
+			expect(result.trim()).toBe("Title");
+		});
+
+		it("skips bullet conversion when enableBullet is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableBullet: false };
+			const result = convertMarkdownToPlainText("- Item", settings);
+			expect(result.trim()).toBe("Item");
+		});
+
+		it("skips checkbox conversion when enableCheckbox is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableCheckbox: false };
+			const result = convertMarkdownToPlainText("- [x] Done", settings);
+			expect(result.trim()).toBe("Done");
+		});
+
+		it("removes bold markers when mode is remove", () => {
+			const settings = { ...DEFAULT_SETTINGS, boldMode: "remove" as const };
+			const result = convertMarkdownToPlainText("**bold**", settings);
+			expect(result.trim()).toBe("bold");
+		});
+
+		it("removes italic markers when mode is remove", () => {
+			const settings = { ...DEFAULT_SETTINGS, italicMode: "remove" as const };
+			const result = convertMarkdownToPlainText("*italic*", settings);
+			expect(result.trim()).toBe("italic");
+		});
+
+		it("removes strikethrough markers when mode is remove", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				strikethroughMode: "remove" as const,
+			};
+			const result = convertMarkdownToPlainText("~~strike~~", settings);
+			expect(result.trim()).toBe("strike");
+		});
+
+		it("skips blockquote conversion when enableBlockquote is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableBlockquote: false };
+			const result = convertMarkdownToPlainText("> Quote", settings);
+			expect(result.trim()).toBe("Quote");
+		});
+
+		it("skips horizontal rule conversion when enableHorizontalRule is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableHorizontalRule: false };
+			const result = convertMarkdownToPlainText("---", settings);
+			expect(result.trim()).toBe("");
+		});
+
+		it("skips code block conversion when enableCodeBlock is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableCodeBlock: false };
+			const result = convertMarkdownToPlainText("```\ncode\n```", settings);
+			expect(result.trim()).toBe("code");
+		});
+
+		it("skips inline code conversion when enableInlineCode is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableInlineCode: false };
+			const result = convertMarkdownToPlainText("some `code` here", settings);
+			expect(result).toContain("code");
+			expect(result).not.toContain("`");
+		});
+
+		it("skips all conversion when enableMarkdownConversion is false", () => {
+			const settings = { ...DEFAULT_SETTINGS, enableMarkdownConversion: false };
+			const input = "# Title\n\n- **bold** item";
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe(input);
+		});
+	});
+
+	describe("Edge cases", () => {
+		it("handles empty input", () => {
+			const result = convertMarkdownToPlainText("", DEFAULT_SETTINGS);
+			expect(result).toBe("");
+		});
+
+		it("handles whitespace only input", () => {
+			const result = convertMarkdownToPlainText("   \n\n   ", DEFAULT_SETTINGS);
+			expect(result.trim()).toBe("");
+		});
+
+		it("handles heading level 5", () => {
+			const result = convertMarkdownToPlainText(
+				"##### Title",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Title");
+		});
+
+		it("handles heading level 6", () => {
+			const result = convertMarkdownToPlainText(
+				"###### Title",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Title");
+		});
+	});
+
+	describe("Custom rules escape sequences", () => {
+		it("replaces with newline using \\n", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "br",
+						pattern: "<br>",
+						replacement: "\\n",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("line1<br>line2", settings);
+			expect(result).toContain("line1\nline2");
+		});
+
+		it("replaces with tab using \\t", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				customRules: [
+					{
+						name: "tab",
+						pattern: "TAB",
+						replacement: "\\t",
+						caseInsensitive: true,
+						enabled: true,
+					},
+				],
+			};
+			const result = convertMarkdownToPlainText("aTABb", settings);
+			expect(result).toContain("a\tb");
+		});
+	});
+
+	describe("Line wrapping", () => {
+		const wrap = {
+			...DEFAULT_SETTINGS,
+			enableLineWrap: true,
+			lineWrapWidth: 20,
+		};
+
+		it("does not wrap by default", () => {
+			const input = "word ".repeat(30).trim();
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result.trim()).toBe(input);
+		});
+
+		it("wraps paragraphs at the configured width", () => {
+			const result = convertMarkdownToPlainText(
+				"The quick brown fox jumps over the lazy dog",
+				wrap,
+			);
+			expect(result).toBe("The quick brown fox\njumps over the lazy\ndog\n");
+		});
+
+		it("keeps hanging indents for list items", () => {
+			const input = "- first item with many words\n  - nested item with words";
+			const result = convertMarkdownToPlainText(input, wrap);
+			expect(result).toBe(
+				"• first item with\n  many words\n  • nested item with\n    words\n",
+			);
+		});
+
+		it("keeps the blockquote prefix on continuation lines", () => {
+			const result = convertMarkdownToPlainText(
+				"> quoted text that goes on and on",
+				wrap,
+			);
+			expect(result).toBe("│ quoted text that\n│ goes on and on\n");
+		});
+
+		it("counts wide CJK characters as two columns", () => {
+			const result = convertMarkdownToPlainText(
+				"日本語のテキストは長い文章です",
+				{
+					...wrap,
+					lineWrapWidth: 10,
+				},
+			);
+			expect(result).toBe("日本語のテ\nキストは長\nい文章です\n");
+		});
+
+		it("counts styled Unicode letters as one column", () => {
+			const result = convertMarkdownToPlainText(
+				"**bold words that wrap now**",
+				wrap,
+			);
+			expect(result).toBe("𝐛𝐨𝐥𝐝 𝐰𝐨𝐫𝐝𝐬 𝐭𝐡𝐚𝐭 𝐰𝐫𝐚𝐩\n𝐧𝐨𝐰\n");
+		});
+
+		it("drops the strikethrough mark of a space at a break", () => {
+			const result = convertMarkdownToPlainText(
+				"~~this is some struck text here~~",
+				{ ...wrap, lineWrapWidth: 12 },
+			);
+			const strike = (text: string) => text.replace(/./g, "$&\u0336");
+			expect(result).toBe(
+				`${["this is some", "struck text", "here"].map(strike).join("\n")}\n`,
+			);
+		});
+
+		it("never wraps code blocks", () => {
+			const input = "```\nconst value = someFunction(argument, another);\n```";
+			const result = convertMarkdownToPlainText(input, wrap);
+			expect(result).toContain(
+				"  const value = someFunction(argument, another);",
+			);
+		});
+	});
+
+	describe("HTML passthrough", () => {
+		it("passes through raw HTML", () => {
+			const settings = { ...DEFAULT_SETTINGS, htmlMode: "keep" as const };
+			const result = convertMarkdownToPlainText("<div>content</div>", settings);
+			expect(result).toContain("<div>content</div>");
+		});
+
+		it("keeps entities escaped in keep mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, htmlMode: "keep" as const };
+			const result = convertMarkdownToPlainText("a &amp; b", settings);
+			expect(result.trim()).toBe("a &amp; b");
+		});
+	});
+
+	describe("HTML translation", () => {
+		it("strips block tags by default", () => {
+			const result = convertMarkdownToPlainText(
+				"<div>content</div>\n\nnext",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toBe("content\n\nnext\n");
+		});
+
+		it("decodes entities in text", () => {
+			const result = convertMarkdownToPlainText(
+				"a &amp; b &lt;x&gt; &#169; &#x2192; &unknown;",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("a & b <x> © → &unknown;");
+		});
+
+		it("translates br, sup and kbd", () => {
+			const result = convertMarkdownToPlainText(
+				"x<sup>2</sup> press <kbd>Ctrl</kbd>+<kbd>C</kbd><br>next",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("x² press [Ctrl]+[C]\nnext");
+		});
+
+		it("renders details as summary followed by body", () => {
+			const input =
+				"<details>\n<summary>More</summary>\n\nHidden **text**\n</details>\n\nAfter";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("More\n\nHidden 𝐭𝐞𝐱𝐭\n\nAfter\n");
+		});
+
+		it("drops the blank line of a closing tag on its own", () => {
+			const input =
+				"<details>\n<summary>More</summary>\n\nBody text\n\n</details>\n\nafter";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("More\n\nBody text\n\nafter\n");
+		});
+
+		it("strips tags without translating in strip mode", () => {
+			const settings = { ...DEFAULT_SETTINGS, htmlMode: "strip" as const };
+			const result = convertMarkdownToPlainText(
+				'<span style="color:red">red</span> x<sup>2</sup> <kbd>K</kbd>',
+				settings,
+			);
+			expect(result.trim()).toBe("red x2 K");
+		});
+
+		it("removes HTML comments", () => {
+			const result = convertMarkdownToPlainText(
+				"before <!-- note --> after",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("before  after");
+		});
+	});
+
+	describe("Math", () => {
+		it("converts inline math to Unicode", () => {
+			const result = convertMarkdownToPlainText(
+				"$E = mc^2$ and $\\alpha_i \\to \\beta^{n+1}$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("E = mc² and αᵢ → βⁿ⁺¹");
+		});
+
+		it("converts fractions, roots and styled letters", () => {
+			const result = convertMarkdownToPlainText(
+				"$\\frac{1}{2} + \\frac{a+b}{c} = \\sqrt{x^2+1}$, $\\mathbb{R}^n \\subseteq \\mathcal{L}$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("½ + (a+b)/c = √(x²+1), ℝⁿ ⊆ ℒ");
+		});
+
+		it("renders block math on its own lines", () => {
+			const input =
+				"Before\n\n$$\n\\begin{aligned} a &= b \\\\ c &\\leq d \\end{aligned}\n$$\n\nAfter";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("Before\n\na = b\nc ≤ d\n\nAfter\n");
+		});
+
+		it("keeps two display formulas on one line apart", () => {
+			const result = convertMarkdownToPlainText(
+				"$$x^2$$ and $$y_1$$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toBe("x² and y₁\n");
+		});
+
+		it("leaves prices and code spans alone", () => {
+			const result = convertMarkdownToPlainText(
+				"costs $5 and $10, `$x^2$`",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("costs $5 and $10, `$x^2$`");
+		});
+
+		it("matches math that ends in an escaped character", () => {
+			const result = convertMarkdownToPlainText(
+				"$\\{1, 2\\}$ and $S = \\{x \\mid x > 0\\}$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("{1, 2} and S = {x ∣ x > 0}");
+		});
+
+		it("keeps unsupported commands as written", () => {
+			const result = convertMarkdownToPlainText(
+				"$\\unknown x$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("\\unknown x");
+		});
+
+		it("keeps the braced arguments of unsupported commands", () => {
+			const result = convertMarkdownToPlainText(
+				"$\\unknowncmd{x} + \\textcolor{red}{y}$",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("\\unknowncmd{x} + \\textcolor{red}{y}");
+		});
+
+		it("keeps raw math or strips delimiters", () => {
+			const input = "$x^2$\n\n$$\ny_1\n$$";
+			const keep = { ...DEFAULT_SETTINGS, mathMode: "keep" as const };
+			const strip = { ...DEFAULT_SETTINGS, mathMode: "strip" as const };
+			expect(convertMarkdownToPlainText(input, keep)).toBe(
+				"$x^2$\n\n$$\ny_1\n$$\n",
+			);
+			expect(convertMarkdownToPlainText(input, strip)).toBe("x^2\n\ny_1\n");
+		});
+	});
+
+	describe("Tags, block IDs and comments", () => {
+		it("keeps tags by default", () => {
+			const result = convertMarkdownToPlainText(
+				"See #project/alpha here",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("See #project/alpha here");
+		});
+
+		it("removes tags or only their hash", () => {
+			const input = "See #project/alpha and #123 here #end";
+			const removeHash = {
+				...DEFAULT_SETTINGS,
+				tagMode: "remove-hash" as const,
+			};
+			const remove = { ...DEFAULT_SETTINGS, tagMode: "remove" as const };
+			expect(convertMarkdownToPlainText(input, removeHash).trim()).toBe(
+				"See project/alpha and #123 here end",
+			);
+			expect(convertMarkdownToPlainText(input, remove).trim()).toBe(
+				"See and #123 here",
+			);
+		});
+
+		it("does not treat anchors in URLs or code as tags", () => {
+			const settings = { ...DEFAULT_SETTINGS, tagMode: "remove" as const };
+			const result = convertMarkdownToPlainText(
+				"C# at https://example.com/#frag and `#code`",
+				settings,
+			);
+			expect(result.trim()).toBe("C# at https://example.com/#frag and `#code`");
+		});
+
+		it("strips block IDs at line ends and on their own line", () => {
+			const input = "A line ^abc123\n\nPara\n\n^own-line\n\n- item ^li\n- x^2";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("A line\n\nPara\n\n• item\n• x^2\n");
+		});
+
+		it("keeps block IDs when stripping is off", () => {
+			const settings = { ...DEFAULT_SETTINGS, stripBlockIds: false };
+			const result = convertMarkdownToPlainText("A line ^abc123", settings);
+			expect(result.trim()).toBe("A line ^abc123");
+		});
+
+		it("removes inline and multi-line comments", () => {
+			const input =
+				"Before\n\n%%\nhidden\n\nstill hidden\n%%\n\nVisible %%inline%% text %%multi\nline%% end.";
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("Before\n\nVisible text end.\n");
+		});
+
+		it("leaves comment markers inside code spans", () => {
+			const result = convertMarkdownToPlainText(
+				"Use `%%x%%` literally",
+				DEFAULT_SETTINGS,
+			);
+			expect(result.trim()).toBe("Use `%%x%%` literally");
+		});
+
+		it("keeps comments when removal is off", () => {
+			const settings = { ...DEFAULT_SETTINGS, removeComments: false };
+			const result = convertMarkdownToPlainText(
+				"%%\nnote\n%%\n\nA %%b%% c",
+				settings,
+			);
+			expect(result).toBe("%%\nnote\n%%\n\nA %%b%% c\n");
+		});
+	});
+
+	describe("Frontmatter", () => {
+		const input =
+			'---\ntitle: "My Note"\ndate: 2024-05-01\ntags:\n  - a\n  - b\naliases: [x, "y"]\n---\n\nBody';
+
+		it("strips frontmatter by default", () => {
+			const result = convertMarkdownToPlainText(input, DEFAULT_SETTINGS);
+			expect(result).toBe("Body\n");
+		});
+
+		it("keeps raw frontmatter", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				frontmatterMode: "keep" as const,
+			};
+			const result = convertMarkdownToPlainText(
+				"---\ntitle: x\n---\nBody",
+				settings,
+			);
+			expect(result).toBe("---\ntitle: x\n---\n\nBody\n");
+		});
+
+		it("applies the frontmatter mode when conversion is disabled", () => {
+			const disabled = { ...DEFAULT_SETTINGS, enableMarkdownConversion: false };
+			const note = "---\ntitle: x\n---\n**Body**";
+			expect(convertMarkdownToPlainText(note, disabled)).toBe("**Body**");
+			expect(
+				convertMarkdownToPlainText(note, {
+					...disabled,
+					frontmatterMode: "keys" as const,
+				}),
+			).toBe("title: x\n\n**Body**");
+		});
+
+		it("renders all keys as a header block", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				frontmatterMode: "header" as const,
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe(
+				"title: My Note\ndate: 2024-05-01\ntags: a, b\naliases: x, y\n\nBody\n",
+			);
+		});
+
+		it("renders only selected keys in the given order", () => {
+			const settings = {
+				...DEFAULT_SETTINGS,
+				frontmatterMode: "keys" as const,
+				frontmatterKeys: ["date", "title", "missing"],
+			};
+			const result = convertMarkdownToPlainText(input, settings);
+			expect(result).toBe("date: 2024-05-01\ntitle: My Note\n\nBody\n");
+		});
+
+		it("does not mistake a leading thematic break for frontmatter", () => {
+			const result = convertMarkdownToPlainText(
+				"---\n\nBody\n\n---\n\nMore",
+				DEFAULT_SETTINGS,
+			);
+			expect(result).toContain("Body");
+		});
+	});
+
+	describe("Slack output", () => {
+		const slack = { ...DEFAULT_SETTINGS, outputFormat: "slack" as const };
+
+		it("uses mrkdwn markers for emphasis", () => {
+			const result = convertMarkdownToPlainText(
+				"**Bold** and *italic* and ~~gone~~",
+				slack,
+			);
+			expect(result.trim()).toBe("*Bold* and _italic_ and ~gone~");
+		});
+
+		it("escapes &, < and > in text and code", () => {
+			const result = convertMarkdownToPlainText(
+				"5 > 3 & `a<b`\n\n```\nif (a < b) {}\n```",
+				slack,
+			);
+			expect(result).toBe(
+				"5 &gt; 3 &amp; `a&lt;b`\n\n```\nif (a &lt; b) {}\n```\n",
+			);
+		});
+
+		it("renders links as <url|text>", () => {
+			const result = convertMarkdownToPlainText(
+				"[site](https://x.com/?a=1&b=2) and https://auto.com",
+				slack,
+			);
+			expect(result.trim()).toBe(
+				"<https://x.com/?a=1&amp;b=2|site> and <https://auto.com>",
+			);
+		});
+
+		it("renders headings as bold lines and quotes with >", () => {
+			const result = convertMarkdownToPlainText(
+				"# Title\n\n> quote\n> **more**\n\n> [!tip] Hint\n> body",
+				slack,
+			);
+			expect(result).toBe("*Title*\n> quote\n> *more*\n\n> *Hint*\n> body\n");
+		});
+
+		it("titles untitled callouts with the aliased type name", () => {
+			const result = convertMarkdownToPlainText("> [!tldr]\n> Short", slack);
+			expect(result).toBe("> *Abstract*\n> Short\n");
+		});
+
+		it("renders headings as plain lines when headings are disabled", () => {
+			const result = convertMarkdownToPlainText("# Title\n\ntext", {
+				...slack,
+				enableHeadings: false,
+			});
+			expect(result).toBe("Title\ntext\n");
+		});
+
+		it("keeps plain text tables in a code fence", () => {
+			const result = convertMarkdownToPlainText("| a |\n|---|\n| 1 |", {
+				...slack,
+				tableStyle: "ascii" as const,
+			});
+			expect(result.startsWith("```\n+---+\n")).toBe(true);
+			expect(result.endsWith("+---+\n```\n")).toBe(true);
+		});
+
+		it("renders table cells as plain text and escapes the grid once", () => {
+			const result = convertMarkdownToPlainText(
+				"| a | b |\n|---|---|\n| <1> | [l](https://u) |",
+				{ ...slack, tableStyle: "ascii" as const },
+			);
+			expect(result).toBe(
+				"```\n+-----+---+\n| a   | b |\n+-----+---+\n| &lt;1&gt; | l |\n+-----+---+\n```\n",
+			);
+		});
+
+		it("drops code blocks removed by their language mode", () => {
+			const result = convertMarkdownToPlainText(
+				"Before\n\n```dataview\nLIST\n```\n\n```js\nx()\n```",
+				{ ...slack, codeBlockLanguageModes: { dataview: "remove" as const } },
+			);
+			expect(result).toBe("Before\n\n```\nx()\n```\n");
+		});
+
+		it("keeps code block placeholders instead of the code", () => {
+			const result = convertMarkdownToPlainText("```mermaid\ngraph\n```", {
+				...slack,
+				codeBlockLanguageModes: { mermaid: "placeholder" as const },
+			});
+			expect(result).toBe("[mermaid block]\n");
+		});
+
+		it("still applies custom rules after rendering", () => {
 			const settings = {
-				...DEFAULT_SETTINGS,
+				...slack,
 				customRules: [
 					{
-						name: "replace bold syntax",
-						pattern: "\\*\\*bold\\*\\*",
-						replacement: "REPLACED",
+						name: "underscores to slashes",
+						pattern: "_",
+						replacement: "/",
 						caseInsensitive: false,
 						enabled: true,
-						// applyBeforeConversion defaults to false
 					},
 				],
 			};
-			const result = convertMarkdownToPlainText("**bold**", settings);
-			// Should contain unicode bold since rule ran after conversion
-			expect(result).toContain("𝐛𝐨𝐥𝐝");
-			expect(result).not.toContain("REPLACED");
+			const result = convertMarkdownToPlainText("*italic*", settings);
+			expect(result.trim()).toBe("/italic/");
+		});
+	});
+
+	describe("BBCode output", () => {
+		const bbcode = { ...DEFAULT_SETTINGS, outputFormat: "bbcode" as const };
+
+		it("uses [b], [i], [s] and [u] for emphasis", () => {
+			const result = convertMarkdownToPlainText(
+				"**Bold** *it* ~~del~~ <u>under</u>",
+				bbcode,
+			);
+			expect(result.trim()).toBe(
+				"[b]Bold[/b] [i]it[/i] [s]del[/s] [u]under[/u]",
+			);
 		});
 
-		it("applies before and after rules in correct order", () => {
+		it("renders links and images", () => {
+			const result = convertMarkdownToPlainText(
+				"[site](https://x.com) https://auto.com ![pic](https://x.com/a.png)",
+				bbcode,
+			);
+			expect(result.trim()).toBe(
+				"[url=https://x.com]site[/url] [url]https://auto.com[/url] [img]https://x.com/a.png[/img]",
+			);
+		});
+
+		it("wraps quotes, callouts and code blocks", () => {
+			const result = convertMarkdownToPlainText(
+				"> quote\n> more\n\n> [!tip] Hint\n> body\n\n```js\nlet a = [1];\n```",
+				bbcode,
+			);
+			expect(result).toBe(
+				"[quote]quote\nmore[/quote]\n\n[quote][b]Hint[/b]\nbody[/quote]\n\n[code]let a = [1];[/code]\n",
+			);
+		});
+
+		it("renders table cells as plain text inside [code]", () => {
+			const result = convertMarkdownToPlainText(
+				"| a | b |\n|---|---|\n| **x** | [l](https://u) |",
+				{ ...bbcode, tableStyle: "ascii" as const },
+			);
+			expect(result).toBe(
+				"[code]+---+---+\n| a | b |\n+---+---+\n| 𝐱 | l |\n+---+---+[/code]\n",
+			);
+		});
+
+		it("keeps code block placeholders instead of the code", () => {
+			const result = convertMarkdownToPlainText("```js\nx()\n```", {
+				...bbcode,
+				codeBlockMode: "placeholder" as const,
+			});
+			expect(result).toBe("[js block]\n");
+		});
+
+		it("drops code blocks removed by the code block mode", () => {
+			const result = convertMarkdownToPlainText("Before\n\n```js\nx()\n```", {
+				...bbcode,
+				codeBlockMode: "remove" as const,
+			});
+			expect(result).toBe("Before\n");
+		});
+
+		it("renders nested lists with [list] and [*], keeping checkboxes", () => {
+			const result = convertMarkdownToPlainText(
+				"- a\n  1. b\n  2. c\n- [x] d",
+				bbcode,
+			);
+			expect(result).toBe(
+				`[list]\n[*]a\n[list=1]\n[*]b\n[*]c\n[/list]\n[*]${DEFAULT_SETTINGS.checkboxChecked} d\n[/list]\n`,
+			);
+		});
+
+		it("drops a list emptied by the task filter", () => {
+			const result = convertMarkdownToPlainText("- [x] done\n\nafter", {
+				...bbcode,
+				taskFilter: "hide-completed" as const,
+			});
+			expect(result).toBe("after\n");
+		});
+
+		it("applies custom rules before and after rendering", () => {
+			const rule = {
+				name: "rule",
+				pattern: "\\[b\\]",
+				replacement: "[strong]",
+				caseInsensitive: false,
+				enabled: true,
+			};
 			const settings = {
-				...DEFAULT_SETTINGS,
+				...bbcode,
 				customRules: [
+					rule,
 					{
-						name: "after rule",
-						pattern: "𝐛𝐨𝐥𝐝",
-						replacement: "AFTER",
-						caseInsensitive: false,
-						enabled: true,
-						applyBeforeConversion: false,
-					},
-					{
-						name: "before rule",
-						pattern: "\\*italic\\*",
-						replacement: "BEFORE",
-						caseInsensitive: false,
-						enabled: true,
+						...rule,
+						pattern: "TODO",
+						replacement: "**todo**",
 						applyBeforeConversion: true,
 					},
 				],
 			};
-			const result = convertMarkdownToPlainText(
-				"**bold** and *italic*",
-				settings,
-			);
-			// "*italic*" replaced before conversion, so no italic processing
-			expect(result).toContain("BEFORE");
-			expect(result).not.toContain("𝑖𝑡𝑎𝑙𝑖𝑐");
-			// bold converted to unicode, then replaced by after rule
-			expect(result).toContain("AFTER");
+			const result = convertMarkdownToPlainText("TODO", settings);
+			expect(result.trim()).toBe("[strong]todo[/b]");
 		});
 	});
 
-	describe("Section toggles", () => {
-		it("skips heading conversion when enableHeadings is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableHeadings: false };
-			const result = convertMarkdownToPlainText("# Title", settings);
-			expect(result.trim()).toBe("Title");
+	describe("Jira output", () => {
+		const jira = { ...DEFAULT_SETTINGS, outputFormat: "jira" as const };
+
+		it("renders headings with hN.", () => {
+			const result = convertMarkdownToPlainText("## Title\n\ntext", jira);
+			expect(result).toBe("h2. Title\ntext\n");
 		});
 
-		it("skips bullet conversion when enableBullet is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableBullet: false };
-			const result = convertMarkdownToPlainText("- Item", settings);
-			expect(result.trim()).toBe("Item");
+		it("renders headings as plain lines when headings are disabled", () => {
+			const result = convertMarkdownToPlainText("## A_b\n\ntext", {
+				...jira,
+				enableHeadings: false,
+			});
+			expect(result).toBe("A\\_b\ntext\n");
 		});
 
-		it("skips checkbox conversion when enableCheckbox is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableCheckbox: false };
-			const result = convertMarkdownToPlainText("- [x] Done", settings);
-			expect(result.trim()).toBe("Done");
+		it("uses wiki markup for emphasis and inline code", () => {
+			const result = convertMarkdownToPlainText(
+				"**Bold** *it* ~~del~~ `code`",
+				jira,
+			);
+			expect(result.trim()).toBe("*Bold* _it_ -del- {{code}}");
 		});
 
-		it("removes bold markers when mode is remove", () => {
-			const settings = { ...DEFAULT_SETTINGS, boldMode: "remove" as const };
-			const result = convertMarkdownToPlainText("**bold**", settings);
-			expect(result.trim()).toBe("bold");
+		it("renders links as [text|url] and escapes brackets in text", () => {
+			const result = convertMarkdownToPlainText(
+				"[site](https://x.com) https://auto.com [a] {b} c|d",
+				jira,
+			);
+			expect(result.trim()).toBe(
+				"[site|https://x.com] [https://auto.com] \\[a\\] \\{b\\} c\\|d",
+			);
 		});
 
-		it("removes italic markers when mode is remove", () => {
-			const settings = { ...DEFAULT_SETTINGS, italicMode: "remove" as const };
-			const result = convertMarkdownToPlainText("*italic*", settings);
-			expect(result.trim()).toBe("italic");
+		it("escapes text effect markers in literal text", () => {
+			const result = convertMarkdownToPlainText(
+				"a \\*b\\* c and -x- y, ??cite?? 2^3 +u+ !img!",
+				jira,
+			);
+			expect(result.trim()).toBe(
+				"a \\*b\\* c and \\-x\\- y, \\?\\?cite\\?\\? 2\\^3 \\+u\\+ \\!img\\!",
+			);
 		});
 
-		it("removes strikethrough markers when mode is remove", () => {
-			const settings = {
-				...DEFAULT_SETTINGS,
-				strikethroughMode: "remove" as const,
-			};
-			const result = convertMarkdownToPlainText("~~strike~~", settings);
-			expect(result.trim()).toBe("strike");
+		it("wraps code blocks, quotes and callouts", () => {
+			const result = convertMarkdownToPlainText(
+				"```js\nlet a = 1;\n```\n\n> quote\n\n> [!tip] Hint\n> body",
+				jira,
+			);
+			expect(result).toBe(
+				"{code:js}\nlet a = 1;\n{code}\n\n{quote}\nquote\n{quote}\n\n{panel:title=Hint}\nbody\n{panel}\n",
+			);
 		});
 
-		it("skips blockquote conversion when enableBlockquote is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableBlockquote: false };
-			const result = convertMarkdownToPlainText("> Quote", settings);
-			expect(result.trim()).toBe("Quote");
+		it("keeps code block placeholders instead of the code", () => {
+			const result = convertMarkdownToPlainText("```mermaid\ngraph\n```", {
+				...jira,
+				codeBlockLanguageModes: { mermaid: "placeholder" as const },
+			});
+			expect(result).toBe("\\[mermaid block\\]\n");
 		});
 
-		it("skips horizontal rule conversion when enableHorizontalRule is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableHorizontalRule: false };
-			const result = convertMarkdownToPlainText("---", settings);
-			expect(result.trim()).toBe("");
+		it("drops code blocks removed by their language mode", () => {
+			const result = convertMarkdownToPlainText(
+				"Before\n\n```dataview\nLIST\n```",
+				{ ...jira, codeBlockLanguageModes: { dataview: "remove" as const } },
+			);
+			expect(result).toBe("Before\n");
 		});
 
-		it("skips code block conversion when enableCodeBlock is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableCodeBlock: false };
-			const result = convertMarkdownToPlainText("```\ncode\n```", settings);
-			expect(result.trim()).toBe("code");
+		it("renders tables with || header cells", () => {
+			const result = convertMarkdownToPlainText(
+				"| a | b |\n|---|---|\n| 1 | **2** |",
+				jira,
+			);
+			expect(result).toBe("||a||b||\n|1|*2*|\n");
 		});
 
-		it("skips inline code conversion when enableInlineCode is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableInlineCode: false };
-			const result = convertMarkdownToPlainText("some `code` here", settings);
-			expect(result).toContain("code");
-			expect(result).not.toContain("`");
+		it("nests * and # list markers", () => {
+			const result = convertMarkdownToPlainText(
+				"1. one\n   - sub\n     1. deep\n2. [ ] two\n   continued",
+				jira,
+			);
+			expect(result).toBe(
+				`# one\n#* sub\n#*# deep\n# ${DEFAULT_SETTINGS.checkboxUnchecked} two \\\\ continued\n`,
+			);
 		});
 
-		it("skips all conversion when enableMarkdownConversion is false", () => {
-			const settings = { ...DEFAULT_SETTINGS, enableMarkdownConversion: false };
-			const input = "# Title\n\n- **bold** item";
-			const result = convertMarkdownToPlainText(input, settings);
-			expect(result).toBe(input);
+		it("skips line wrapping", () => {
+			const result = convertMarkdownToPlainText(
+				"- a long list item that wraps around\n\na long paragraph that wraps",
+				{ ...jira, enableLineWrap: true, lineWrapWidth: 12 },
+			);
+			expect(result).toBe(
+				"* a long list item that wraps around\n\na long paragraph that wraps\n",
+			);
 		});
 	});
 
-	describe("Edge cases", () => {
-		it("handles empty input", () => {
-			const result = convertMarkdownToPlainText("", DEFAULT_SETTINGS);
-			expect(result).toBe("");
+	describe("ASCII-safe output", () => {
+		const ascii = { ...DEFAULT_SETTINGS, asciiSafe: true };
+
+		it("turns styled and struck text back into letters", () => {
+			const result = convertMarkdownToPlainText(
+				"**Bold** *it* ~~gone~~",
+				ascii,
+			);
+			expect(result.trim()).toBe("Bold it gone");
 		});
 
-		it("handles whitespace only input", () => {
-			const result = convertMarkdownToPlainText("   \n\n   ", DEFAULT_SETTINGS);
-			expect(result.trim()).toBe("");
+		it("draws tables and headings with ASCII", () => {
+			const result = convertMarkdownToPlainText(
+				"# Title\n\n| a |\n|---|\n| 1 |",
+				ascii,
+			);
+			expect(result).toBe("# Title\n+---+\n| a |\n+---+\n| 1 |\n+---+\n");
 		});
 
-		it("handles heading level 5", () => {
+		it("writes bullets, checkboxes and task statuses as ASCII", () => {
 			const result = convertMarkdownToPlainText(
-				"##### Title",
-				DEFAULT_SETTINGS,
+				"- a\n- [x] b\n- [ ] c\n- [/] d",
+				ascii,
 			);
-			expect(result.trim()).toBe("Title");
+			expect(result).toBe("* a\n[x] b\n[ ] c\n[/] d\n");
 		});
 
-		it("handles heading level 6", () => {
+		it("straightens smart quotes and dashes", () => {
 			const result = convertMarkdownToPlainText(
-				"###### Title",
-				DEFAULT_SETTINGS,
+				"\u201cHi\u201d \u2014 it\u2019s\u2026",
+				ascii,
 			);
-			expect(result.trim()).toBe("Title");
+			expect(result.trim()).toBe('"Hi" -- it\'s...');
 		});
-	});
 
-	describe("Custom rules escape sequences", () => {
-		it("replaces with newline using \\n", () => {
-			const settings = {
-				...DEFAULT_SETTINGS,
-				customRules: [
-					{
-						name: "br",
-						pattern: "<br>",
-						replacement: "\\n",
-						caseInsensitive: true,
-						enabled: true,
-					},
-				],
-			};
-			const result = convertMarkdownToPlainText("line1<br>line2", settings);
-			expect(result).toContain("line1\nline2");
+		it("spells out math symbols, scripts and Greek letters", () => {
+			const result = convertMarkdownToPlainText(
+				"$x^2 \\leq \\alpha \\in A$ and $2\\pi r$",
+				ascii,
+			);
+			expect(result.trim()).toBe("x^2 <= alpha in A and 2 pi r");
 		});
 
-		it("replaces with tab using \\t", () => {
-			const settings = {
-				...DEFAULT_SETTINGS,
+		it("puts one space between adjacent spelled-out symbols", () => {
+			const result = convertMarkdownToPlainText(
+				"$\\alpha\\beta\\gamma$ and $\\sum\\pi$",
+				ascii,
+			);
+			expect(result.trim()).toBe("alpha beta gamma and sum pi");
+		});
+
+		it("writes circled list numbers from zero", () => {
+			const result = convertMarkdownToPlainText("0. zero\n1. one", {
+				...ascii,
+				orderedListStyles: ["circled" as const],
+			});
+			expect(result).toBe("(0) zero\n(1) one\n");
+		});
+
+		it("removes callout icons with their space", () => {
+			const result = convertMarkdownToPlainText(
+				"> [!note] Title\n> body",
+				ascii,
+			);
+			expect(result).toBe("+- Title\n| body\n+-\n");
+		});
+
+		it("keeps letters of other scripts", () => {
+			const result = convertMarkdownToPlainText("Привет 日本", ascii);
+			expect(result.trim()).toBe("Привет 日本");
+		});
+
+		it("reports each substitution with its count", () => {
+			let report: AsciiSubstitution[] = [];
+			convertMarkdownToPlainText("**ab** \u201cx\u201d\n\n- a\n- b", ascii, {
+				onAsciiSubstitutions: (substitutions) => {
+					report = substitutions;
+				},
+			});
+			expect(report).toContainEqual({ from: "\u{1d41a}", to: "a", count: 1 });
+			expect(report).toContainEqual({ from: "\u201c", to: '"', count: 1 });
+			expect(report).toContainEqual({ from: "\u2022", to: "*", count: 2 });
+		});
+
+		it("runs before after rules", () => {
+			const result = convertMarkdownToPlainText("- item", {
+				...ascii,
 				customRules: [
 					{
-						name: "tab",
-						pattern: "TAB",
-						replacement: "\\t",
-						caseInsensitive: true,
+						name: "ascii bullets",
+						pattern: "^\\* ",
+						replacement: "- ",
+						caseInsensitive: false,
 						enabled: true,
 					},
 				],
-			};
-			const result = convertMarkdownToPlainText("aTABb", settings);
-			expect(result).toContain("a\tb");
-		});
-	});
-
-	describe("HTML passthrough", () => {
-		it("passes through raw HTML", () => {
-			const result = convertMarkdownToPlainText(
-				"<div>content</div>",
-				DEFAULT_SETTINGS,
-			);
-			expect(result).toContain("<div>content</div>");
+			});
+			expect(result.trim()).toBe("- item");
 		});
 	});
 
@@ -792,3 +2447,139 @@ describe("convertMarkdownToPlainText", () => {
 		});
 	});
 });
+
+describe("convertMarkdownToHtml", () => {
+	it("renders emphasis as tags inside a styled paragraph", () => {
+		const result = convertMarkdownToHtml(
+			"**Bold** *it* ~~del~~ ==hl==",
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toBe(
+			'<p style="margin:0 0 0.8em"><strong>Bold</strong> <em>it</em> <del>del</del> <mark>hl</mark></p>\n',
+		);
+	});
+
+	it("escapes text, code and link URLs", () => {
+		const result = convertMarkdownToHtml(
+			"a < b & `x<y` [l](https://x.com/?a=1&b=2)",
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toContain("a &lt; b &amp; <code");
+		expect(result).toContain(">x&lt;y</code>");
+		expect(result).toContain('<a href="https://x.com/?a=1&amp;b=2">l</a>');
+	});
+
+	it("keeps soft line breaks and skips line wrapping", () => {
+		const result = convertMarkdownToHtml(`one\ntwo ${"word ".repeat(30)}`, {
+			...DEFAULT_SETTINGS,
+			enableLineWrap: true,
+			lineWrapWidth: 20,
+		});
+		expect(result).toContain("one<br>two word word");
+		expect(result.match(/<br>/g)).toHaveLength(1);
+	});
+
+	it("renders headings and tables as elements", () => {
+		const result = convertMarkdownToHtml(
+			"## Title\n\n| a | b |\n|---|--:|\n| 1 | 2 |",
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toContain('<h2 style="margin:0.8em 0 0.4em">Title</h2>');
+		expect(result).toContain("<th ");
+		expect(result).toContain('text-align:right">2</td>');
+	});
+
+	it("uses the preset's bullets and numbers in lists", () => {
+		const result = convertMarkdownToHtml("- a\n  1. b\n- [x] c", {
+			...DEFAULT_SETTINGS,
+			bulletChars: ["-"],
+		});
+		expect(result).toMatch(
+			/^<ul style="[^"]*list-style:none[^"]*"><li>- a<ol /,
+		);
+		expect(result).toContain("<li>1. b</li></ol>");
+		expect(result).toContain(`<li>${DEFAULT_SETTINGS.checkboxChecked} c</li>`);
+	});
+
+	it("renders callouts as quotes with a bold title", () => {
+		const result = convertMarkdownToHtml(
+			"> [!tip] Hint\n> body",
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toMatch(
+			/^<blockquote style="[^"]*"><strong>Hint<\/strong>\n<p [^>]*>body<\/p><\/blockquote>/,
+		);
+	});
+
+	it("keeps code blocks as pre and drops removed ones", () => {
+		const code = "```js\nif (a < b) {}\n```";
+		expect(convertMarkdownToHtml(code, DEFAULT_SETTINGS)).toContain(
+			"<code>if (a &lt; b) {}</code></pre>",
+		);
+		expect(
+			convertMarkdownToHtml(code, {
+				...DEFAULT_SETTINGS,
+				codeBlockMode: "remove" as const,
+			}),
+		).toBe("");
+	});
+
+	it("shows code block placeholders instead of the code", () => {
+		const result = convertMarkdownToHtml("```mermaid\na --> b\n```", {
+			...DEFAULT_SETTINGS,
+			codeBlockLanguageModes: { mermaid: "placeholder" as const },
+		});
+		expect(result).toBe(
+			'<div style="margin:0 0 0.8em">[mermaid block]</div>\n',
+		);
+	});
+
+	it("shows web images and falls back to the image mode for others", () => {
+		const result = convertMarkdownToHtml(
+			"![pic](https://x.com/a.png) ![local](a.png)",
+			{ ...DEFAULT_SETTINGS, imageMode: "alt" as const },
+		);
+		expect(result).toContain('<img src="https://x.com/a.png" alt="pic">');
+		expect(result).toContain("> local</p>");
+	});
+
+	it("puts footnotes and frontmatter in line-broken blocks", () => {
+		const result = convertMarkdownToHtml(
+			"---\ntitle: A & B\n---\nText[^1]\n\n[^1]: The note",
+			{ ...DEFAULT_SETTINGS, frontmatterMode: "header" as const },
+		);
+		expect(result).toMatch(/^<div [^>]*>title: A &amp; B<\/div>/);
+		expect(result).toMatch(/<div [^>]*>Notes<br>¹ The note<\/div>\n$/);
+	});
+
+	it("skips after rules but applies before rules", () => {
+		const rule = {
+			name: "rule",
+			pattern: "x",
+			replacement: "y",
+			caseInsensitive: false,
+			enabled: true,
+		};
+		const result = convertMarkdownToHtml("x", {
+			...DEFAULT_SETTINGS,
+			customRules: [
+				rule,
+				{
+					...rule,
+					pattern: "^",
+					replacement: "<",
+					applyBeforeConversion: true,
+				},
+			],
+		});
+		expect(result).toContain(">&lt;x</p>");
+	});
+
+	it("escapes the raw input when conversion is disabled", () => {
+		const result = convertMarkdownToHtml("**a** <b>\nc", {
+			...DEFAULT_SETTINGS,
+			enableMarkdownConversion: false,
+		});
+		expect(result).toContain("**a** &lt;b&gt;<br>c");
+	});
+});
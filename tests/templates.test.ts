@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	applyHtmlTemplates,
+	applyTemplates,
+	countWords,
+	renderTemplate,
+} from "../src/templates";
+import { DEFAULT_SETTINGS, type Preset } from "../src/types";
+
+// The real moment is only available inside Obsidian; the format is echoed back
+vi.mock("obsidian", () => ({
+	moment: () => ({ format: (format: string) => `<${format}>` }),
+}));
+
+const preset = (headerTemplate: string, footerTemplate: string): Preset => ({
+	id: "test",
+	name: "Test",
+	settings: DEFAULT_SETTINGS,
+	headerTemplate,
+	footerTemplate,
+	richTextCopy: false,
+});
+
+describe("countWords", () => {
+	it("counts whitespace-separated words", () => {
+		expect(countWords("  one two\nthree\tfour ")).toBe(4);
+	});
+
+	it("returns 0 for empty text", () => {
+		expect(countWords(" \n ")).toBe(0);
+	});
+});
+
+describe("renderTemplate", () => {
+	it("replaces variables, allowing spaces inside the braces", () => {
+		const result = renderTemplate("{{title}} by {{ author }}", {
+			title: "Note",
+			author: "Ann",
+		});
+		expect(result).toBe("Note by Ann");
+	});
+
+	it("formats {{date}} with YYYY-MM-DD by default", () => {
+		expect(renderTemplate("{{date}}", {})).toBe("<YYYY-MM-DD>");
+	});
+
+	it("passes the {{date:FORMAT}} argument to moment", () => {
+		expect(renderTemplate("{{date:DD.MM.YYYY}}", {})).toBe("<DD.MM.YYYY>");
+	});
+
+	it("keeps {{date}} built in when a variable shares the name", () => {
+		const result = renderTemplate("{{date}} / {{fm.date}}", {
+			date: "2020-01-01",
+			"fm.date": "2020-01-01",
+		});
+		expect(result).toBe("<YYYY-MM-DD> / 2020-01-01");
+	});
+
+	it("renders unknown variables empty", () => {
+		expect(renderTemplate("[{{missing}}]", {})).toBe("[]");
+	});
+});
+
+describe("applyTemplates", () => {
+	it("separates header and footer with blank lines", () => {
+		const result = applyTemplates("Body\n", preset("# {{title}}", "{{path}}"), {
+			title: "Note",
+			path: "a/Note.md",
+		});
+		expect(result).toBe("# Note\n\nBody\n\na/Note.md\n");
+	});
+
+	it("leaves the text unchanged when the templates render empty", () => {
+		const result = applyTemplates("Body\n", preset("", "{{missing}}"), {});
+		expect(result).toBe("Body\n");
+	});
+});
+
+describe("applyHtmlTemplates", () => {
+	it("adds escaped paragraphs with line breaks", () => {
+		const result = applyHtmlTemplates(
+			"<p>Body</p>\n",
+			preset("{{title}}\nline two", "A & B"),
+			{ title: "<Note>" },
+		);
+		expect(result).toBe(
+			"<p>&lt;Note&gt;<br>line two</p>\n<p>Body</p>\n<p>A &amp; B</p>\n",
+		);
+	});
+
+	it("adds nothing for empty templates", () => {
+		const result = applyHtmlTemplates("<p>Body</p>\n", preset("", ""), {});
+		expect(result).toBe("<p>Body</p>\n");
+	});
+});